@@ -2,12 +2,12 @@ import type { CookieSerializeOptions } from '@fastify/cookie'
 import createError from '@fastify/error'
 import secureSession from '@fastify/secure-session'
 import Fastify from 'fastify'
-import { createRemoteJWKSet } from 'jose'
 import {
   allowInsecureRequests,
   type TokenEndpointResponse
 } from 'openid-client'
 import openIDAuthPlugin, {
+  type AuthorizationRequests,
   discovery,
   type OpenIDAuthHandlers,
   type OpenIDReadTokens,
@@ -26,8 +26,6 @@ const COOKIE_SERIALIZE_OPTIONS: CookieSerializeOptions = {
   sameSite: 'lax'
 }
 
-type SessionValue = Record<string, unknown>
-
 declare module 'fastify' {
   interface FastifyInstance {
     [AUTH_HANDLERS]: OpenIDAuthHandlers
@@ -40,7 +38,7 @@ declare module 'fastify' {
 
 declare module '@fastify/secure-session' {
   interface SessionData {
-    [AUTH_SESSION]?: SessionValue
+    [AUTH_SESSION]?: AuthorizationRequests
   }
 }
 
@@ -65,7 +63,7 @@ const NotAuthenticatedError = createError(
   401
 )
 
-const session: OpenIDSession<SessionValue> = {
+const session: OpenIDSession<AuthorizationRequests> = {
   get(request, _reply) {
     request.log.trace(`Getting ${AUTH_SESSION} session variable`)
     return request.session.get(AUTH_SESSION)
@@ -128,13 +126,6 @@ async function main() {
     { execute: [allowInsecureRequests] }
   )
 
-  // Get JWKS for token verification
-  const jwksUri = config.serverMetadata().jwks_uri
-  if (!jwksUri) {
-    throw new Error('No JWKS URI found in OpenID configuration')
-  }
-  const key = createRemoteJWKSet(new URL(jwksUri))
-
   // Register OpenID auth plugin
   await fastify.register(openIDAuthPlugin, {
     decorator: AUTH_HANDLERS,
@@ -148,8 +139,8 @@ async function main() {
         scope: 'openid profile email'
       }
     },
+    // Tokens are verified with the issuer jwks_uri
     verify: {
-      key,
       tokens: ['access_token'],
       read,
       write(request, reply, tokenset, verified) {
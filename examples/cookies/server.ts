@@ -2,9 +2,9 @@ import cookie, { type CookieSerializeOptions } from '@fastify/cookie'
 import createError from '@fastify/error'
 import secureSession from '@fastify/secure-session'
 import Fastify from 'fastify'
-import { createRemoteJWKSet } from 'jose'
 import { allowInsecureRequests } from 'openid-client'
 import openIDAuthPlugin, {
+  type AuthorizationRequests,
   discovery,
   type OpenIDAuthHandlers,
   type OpenIDReadTokens,
@@ -16,6 +16,7 @@ import openIDAuthPlugin, {
 const AUTH_HANDLERS = Symbol.for('auth-handlers')
 const AUTH_TOKENS = Symbol.for('auth-tokens')
 const AUTH_SESSION = 'oidc'
+const AUTH_TOKENSET = 'tokenset'
 const SESSION_COOKIE = 'session'
 const ACCESS_TOKEN_COOKIE = 'access_token'
 const REFRESH_TOKEN_COOKIE = 'refresh_token'
@@ -27,8 +28,6 @@ const COOKIE_SERIALIZE_OPTIONS: CookieSerializeOptions = {
   sameSite: 'lax'
 }
 
-type SessionValue = Record<string, unknown>
-
 declare module 'fastify' {
   interface FastifyInstance {
     [AUTH_HANDLERS]: OpenIDAuthHandlers
@@ -41,7 +40,8 @@ declare module 'fastify' {
 
 declare module '@fastify/secure-session' {
   interface SessionData {
-    [AUTH_SESSION]?: SessionValue
+    [AUTH_SESSION]?: AuthorizationRequests
+    [AUTH_TOKENSET]?: Partial<TokenEndpointResponse>
   }
 }
 
@@ -65,7 +65,7 @@ const NotAuthenticatedError = createError(
   401
 )
 
-const session: OpenIDSession<SessionValue> = {
+const session: OpenIDSession<AuthorizationRequests> = {
   get(request, _reply) {
     request.log.trace(`Getting ${AUTH_SESSION} session variable`)
     return request.session.get(AUTH_SESSION)
@@ -78,8 +78,22 @@ const session: OpenIDSession<SessionValue> = {
   }
 }
 
+// Token response fields without a cookie of their own
+const tokensetSession: OpenIDSession<Partial<TokenEndpointResponse>> = {
+  get(request, _reply) {
+    request.log.trace(`Getting ${AUTH_TOKENSET} session variable`)
+    return request.session.get(AUTH_TOKENSET)
+  },
+  set(request, _reply, value) {
+    request.log.trace(
+      `${value ? 'Setting' : 'Clearing'} ${AUTH_TOKENSET} session variable`
+    )
+    request.session.set(AUTH_TOKENSET, value)
+  }
+}
+
 // Read tokens from cookies and session (unified logic)
-const read: OpenIDReadTokens = (request, reply) => {
+const read: OpenIDReadTokens = async (request, reply) => {
   // Check if tokenset is already attached to request
   const oldTokenset = request[AUTH_TOKENS]
   if (oldTokenset) {
@@ -94,13 +108,13 @@ const read: OpenIDReadTokens = (request, reply) => {
     access_token: request.cookies[ACCESS_TOKEN_COOKIE],
     refresh_token: request.cookies[REFRESH_TOKEN_COOKIE],
     id_token: request.cookies[ID_TOKEN_COOKIE],
-    ...session.get(request, reply)
+    ...(await tokensetSession.get(request, reply))
   }
   request.log.trace(tokenset, 'Read tokenset from cookies/session')
   return tokenset
 }
 
-const write: OpenIDWriteTokens = (request, reply, tokenset) => {
+const write: OpenIDWriteTokens = async (request, reply, tokenset) => {
   request.log.trace(tokenset, `Setting request[${String(AUTH_TOKENS)}]`)
   request[AUTH_TOKENS] = tokenset
   const { access_token, refresh_token, id_token, ...rest } = tokenset ?? {}
@@ -130,9 +144,9 @@ const write: OpenIDWriteTokens = (request, reply, tokenset) => {
     reply.clearCookie(ID_TOKEN_COOKIE, COOKIE_SERIALIZE_OPTIONS)
   }
   if (Object.keys(rest).length > 0) {
-    session.set(request, reply, rest)
+    await tokensetSession.set(request, reply, rest)
   } else {
-    session.set(request, reply, undefined)
+    await tokensetSession.set(request, reply, undefined)
   }
 }
 
@@ -166,13 +180,6 @@ async function main() {
     { execute: [allowInsecureRequests] }
   )
 
-  // Get JWKS for token verification
-  const jwksUri = config.serverMetadata().jwks_uri
-  if (!jwksUri) {
-    throw new Error('No JWKS URI found in OpenID configuration')
-  }
-  const key = createRemoteJWKSet(new URL(jwksUri))
-
   // Register OpenID auth plugin
   await fastify.register(openIDAuthPlugin, {
     decorator: AUTH_HANDLERS,
@@ -186,8 +193,8 @@ async function main() {
         scope: 'openid profile email'
       }
     },
+    // Tokens are verified with the issuer jwks_uri
     verify: {
-      key,
       tokens: ['id_token', 'access_token'],
       read,
       write(request, reply, tokenset, verified) {
@@ -0,0 +1,140 @@
+import type { RouteHandlerMethod } from 'fastify'
+import {
+  type ClientAuth,
+  type ClientMetadata,
+  type Configuration,
+  type DiscoveryRequestOptions,
+  discovery
+} from 'openid-client'
+import type { OpenIDConfigurationResolver } from './types.js'
+
+export interface OpenIDDiscoveryOptions {
+  issuer: URL | string
+  clientId: string
+  metadata?: Partial<ClientMetadata> | string
+  clientAuthentication?: ClientAuth
+  options?: DiscoveryRequestOptions
+  // Attempts per discovery, with exponential backoff starting at retryDelay ms
+  retries?: number
+  retryDelay?: number
+  // Seconds after which the configuration is discovered again
+  interval?: number
+  rediscover?: (error: unknown) => boolean
+}
+
+export type OpenIDLazyDiscovery = (
+  options: OpenIDDiscoveryOptions
+) => OpenIDConfigurationResolver
+
+// Errors caused by rotated keys or changed metadata
+const REDISCOVER_ERROR_CODES = new Set([
+  'OAUTH_KEY_SELECTION_FAILED',
+  'OAUTH_MISSING_SERVER_METADATA',
+  'OAUTH_INVALID_SERVER_METADATA',
+  'ERR_JWKS_NO_MATCHING_KEY',
+  'ERR_JWKS_INVALID',
+  'ERR_JWKS_TIMEOUT'
+])
+
+export const isRediscoverError = (error: unknown): boolean =>
+  typeof error === 'object' &&
+  error !== null &&
+  REDISCOVER_ERROR_CODES.has((error as { code?: string }).code ?? '')
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+export const openIDLazyDiscovery: OpenIDLazyDiscovery = ({
+  issuer,
+  clientId,
+  metadata,
+  clientAuthentication,
+  options,
+  retries = 3,
+  retryDelay = 1000,
+  interval,
+  rediscover = isRediscoverError
+}) => {
+  let current: { config: Configuration; discoveredAt: number } | undefined
+  let pending: Promise<Configuration> | undefined
+  let stale = false
+
+  const discover = async (): Promise<Configuration> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const config = await discovery(
+          new URL(issuer),
+          clientId,
+          metadata,
+          clientAuthentication,
+          options
+        )
+        current = { config, discoveredAt: Date.now() }
+        stale = false
+        return config
+      } catch (error) {
+        if (attempt >= retries) {
+          throw error
+        }
+        await sleep(retryDelay * 2 ** (attempt - 1))
+      }
+    }
+  }
+
+  const rediscoverOnce = () => {
+    pending ??= discover().finally(() => {
+      pending = undefined
+    })
+    return pending
+  }
+
+  const resolver = (async () => {
+    if (current === undefined) {
+      return await rediscoverOnce()
+    }
+    if (stale) {
+      const previous = current.config
+      return await rediscoverOnce().catch(() => {
+        // Fall back to the previous configuration until the next error
+        stale = false
+        return previous
+      })
+    }
+    if (
+      interval !== undefined &&
+      Date.now() - current.discoveredAt >= interval * 1000
+    ) {
+      // Keep serving the previous configuration until discovery succeeds
+      rediscoverOnce().catch(() => {})
+    }
+    return current.config
+  }) as OpenIDConfigurationResolver
+
+  resolver.invalidate = () => {
+    stale = true
+  }
+  resolver.rediscover = rediscover
+
+  return resolver
+}
+
+export type OpenIDRediscoverOnError = (
+  config: OpenIDConfigurationResolver,
+  handler: RouteHandlerMethod
+) => RouteHandlerMethod
+
+export const openIDRediscoverOnError: OpenIDRediscoverOnError = (
+  config,
+  handler
+) =>
+  async function openIDRediscoverHandler(request, reply) {
+    try {
+      return await handler.call(this, request, reply)
+    } catch (error) {
+      if (config.rediscover?.(error) ?? isRediscoverError(error)) {
+        request.log.debug(error, 'OpenID configuration marked for discovery')
+        config.invalidate?.()
+      }
+      throw error
+    }
+  }
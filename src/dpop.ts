@@ -0,0 +1,194 @@
+import { createHash } from 'node:crypto'
+import createError from '@fastify/error'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import {
+  type CryptoKey,
+  calculateJwkThumbprint,
+  EmbeddedJWK,
+  exportJWK,
+  importJWK,
+  type JWK,
+  jwtVerify
+} from 'jose'
+import {
+  type Configuration,
+  type DPoPHandle,
+  type DPoPOptions,
+  getDPoPHandle,
+  randomDPoPKeyPair
+} from 'openid-client'
+import { type OpenIDKeyValueStore, openIDMemoryStore } from './store.js'
+import type { OpenIDSession } from './types.js'
+
+export const OpenIDDPoPKeyMissingError = createError(
+  'FST_OPENID_DPOP_KEY_MISSING',
+  'no DPoP key available',
+  400
+)
+
+export const OpenIDDPoPProofError = createError(
+  'FST_OPENID_DPOP_PROOF',
+  'invalid DPoP proof: %s',
+  401
+)
+
+// Key pairs are kept as JWKs so any session store can persist them
+export type OpenIDDPoPKey = {
+  alg: string
+  privateKey: JWK
+  publicKey: JWK
+}
+
+export interface OpenIDDPoPOptions {
+  session: OpenIDSession<OpenIDDPoPKey>
+  // Signing algorithm of generated keys, defaults to ES256
+  alg?: string
+}
+
+export const generateDPoPKey = async (
+  alg = 'ES256'
+): Promise<OpenIDDPoPKey> => {
+  const { privateKey, publicKey } = await randomDPoPKeyPair(alg, {
+    extractable: true
+  })
+  return {
+    alg,
+    privateKey: await exportJWK(privateKey),
+    publicKey: await exportJWK(publicKey)
+  }
+}
+
+export const calculateDPoPThumbprint = (key: OpenIDDPoPKey): Promise<string> =>
+  calculateJwkThumbprint(key.publicKey)
+
+// openid-client retries token requests once when the OP asks for a DPoP nonce
+export const openIDDPoPHandle = async (
+  config: Configuration,
+  { alg, privateKey, publicKey }: OpenIDDPoPKey
+): Promise<DPoPHandle> =>
+  getDPoPHandle(config, {
+    privateKey: (await importJWK(privateKey, alg)) as CryptoKey,
+    publicKey: (await importJWK({ ...publicKey, ext: true }, alg)) as CryptoKey
+  })
+
+// Adds the DPoP handle of the session key to token endpoint request options
+export const resolveDPoPOptions = async <T extends DPoPOptions>(
+  config: Configuration,
+  dpop: OpenIDDPoPOptions | undefined,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  options: T | undefined
+): Promise<T | undefined> => {
+  if (dpop === undefined) {
+    return options
+  }
+  const key = await dpop.session.get(request, reply)
+  if (key === undefined) {
+    throw new OpenIDDPoPKeyMissingError()
+  }
+  return { ...options, DPoP: await openIDDPoPHandle(config, key) } as T
+}
+
+export interface OpenIDDPoPProofOptions {
+  algorithms?: string[]
+  // Seconds a proof is accepted after its iat
+  maxAge?: number
+  clockTolerance?: number
+  // Seen proof jti values, entries expire after maxAge
+  replay?: OpenIDKeyValueStore<boolean>
+}
+
+export const DPOP_ALGORITHMS = ['ES256', 'ES384', 'EdDSA', 'PS256', 'RS256']
+
+const replayStores = new WeakMap<
+  OpenIDDPoPProofOptions,
+  OpenIDKeyValueStore<boolean>
+>()
+
+const resolveReplayStore = (
+  options: OpenIDDPoPProofOptions
+): OpenIDKeyValueStore<boolean> => {
+  if (options.replay !== undefined) {
+    return options.replay
+  }
+  let replay = replayStores.get(options)
+  if (replay === undefined) {
+    replay = openIDMemoryStore<boolean>({ max: 10000 })
+    replayStores.set(options, replay)
+  }
+  return replay
+}
+
+const resolveRequestUri = (request: FastifyRequest): string => {
+  const { origin, pathname } = new URL(
+    request.url,
+    `${request.protocol}://${request.host}`
+  )
+  return `${origin}${pathname}`
+}
+
+const normalizeUri = (uri: unknown): string | undefined => {
+  if (typeof uri !== 'string' || !URL.canParse(uri)) {
+    return undefined
+  }
+  const { origin, pathname } = new URL(uri)
+  return `${origin}${pathname}`
+}
+
+export type OpenIDDPoPVerifyProof = (
+  request: FastifyRequest,
+  accessToken: string,
+  jkt: string,
+  options: OpenIDDPoPProofOptions
+) => Promise<void>
+
+// Validates the DPoP header of a request presenting a DPoP-bound access token
+// as described in RFC 9449 section 4.3 and 7.1
+export const openIDDPoPVerifyProof: OpenIDDPoPVerifyProof = async (
+  request,
+  accessToken,
+  jkt,
+  options
+) => {
+  const {
+    algorithms = DPOP_ALGORITHMS,
+    maxAge = 300,
+    clockTolerance = 0
+  } = options
+  const proof = request.headers.dpop
+  if (typeof proof !== 'string' || proof === '') {
+    throw new OpenIDDPoPProofError('missing DPoP header')
+  }
+  const { payload, protectedHeader } = await jwtVerify(proof, EmbeddedJWK, {
+    typ: 'dpop+jwt',
+    algorithms,
+    maxTokenAge: maxAge,
+    clockTolerance,
+    requiredClaims: ['iat', 'jti', 'htm', 'htu', 'ath']
+  }).catch((error: Error) => {
+    throw new OpenIDDPoPProofError(error.message, { cause: error })
+  })
+  const { jwk } = protectedHeader
+  if (jwk === undefined || 'd' in jwk) {
+    throw new OpenIDDPoPProofError('jwk header must be a public key')
+  }
+  if (payload.htm !== request.method) {
+    throw new OpenIDDPoPProofError('htm claim does not match')
+  }
+  if (normalizeUri(payload.htu) !== resolveRequestUri(request)) {
+    throw new OpenIDDPoPProofError('htu claim does not match')
+  }
+  const ath = createHash('sha256').update(accessToken).digest('base64url')
+  if (payload.ath !== ath) {
+    throw new OpenIDDPoPProofError('ath claim does not match')
+  }
+  if ((await calculateJwkThumbprint(jwk)) !== jkt) {
+    throw new OpenIDDPoPProofError('key does not match the token binding')
+  }
+  const replay = resolveReplayStore(options)
+  const jti = payload.jti as string
+  if ((await replay.get(jti)) !== undefined) {
+    throw new OpenIDDPoPProofError('jti claim has already been used')
+  }
+  await replay.set(jti, true, maxAge + clockTolerance)
+}
@@ -0,0 +1,202 @@
+import createError from '@fastify/error'
+import type { FastifyContextConfig, FastifyRequest } from 'fastify'
+import type { JWTPayload } from 'jose'
+import type { IntrospectionResponse } from 'openid-client'
+import type { OpenIDJWTVerified, OpenIDWriteTokens } from './types.js'
+import { resolveScopes } from './utils.js'
+
+export const OpenIDForbiddenError = createError(
+  'FST_OPENID_FORBIDDEN',
+  'insufficient authorization: %s',
+  403
+)
+
+export type OpenIDGuardClaims = JWTPayload | IntrospectionResponse
+
+export interface OpenIDGuardMatch {
+  anyOf?: string[]
+  allOf?: string[]
+}
+
+export type OpenIDGuardClaimPredicate = (
+  value: unknown,
+  claims: OpenIDGuardClaims
+) => boolean
+
+// Claims are compared with ===, so only primitive values can be expected
+export type OpenIDGuardClaimExpectation =
+  | OpenIDGuardClaimPredicate
+  | string
+  | number
+  | boolean
+  | null
+
+export interface OpenIDGuardRequirements {
+  // Every scope is required
+  scope?: string[]
+  roles?: OpenIDGuardMatch
+  groups?: OpenIDGuardMatch
+  // Expected claim values, or predicates called with the claim value
+  claims?: Record<string, OpenIDGuardClaimExpectation>
+}
+
+export interface OpenIDGuardOptions extends OpenIDGuardRequirements {
+  // Token the claims are read from, defaults to the first verified of
+  // access_token, introspection and id_token
+  token?: 'id_token' | 'access_token' | 'introspection'
+  // Claim paths, nested claims are separated by dots (e.g. realm_access.roles)
+  rolesClaim?: string
+  groupsClaim?: string
+}
+
+export type OpenIDGuard = (
+  verified: OpenIDJWTVerified | undefined,
+  options: OpenIDGuardOptions
+) => OpenIDGuardClaims
+
+const resolveClaims = (
+  verified: OpenIDJWTVerified | undefined,
+  token: OpenIDGuardOptions['token']
+): OpenIDGuardClaims | undefined => {
+  switch (token) {
+    case 'introspection':
+      return verified?.introspection
+    case 'id_token':
+    case 'access_token':
+      return verified?.[token]?.payload
+    default:
+      return (
+        verified?.access_token?.payload ??
+        verified?.introspection ??
+        verified?.id_token?.payload
+      )
+  }
+}
+
+const resolveClaim = (claims: OpenIDGuardClaims, path: string): unknown =>
+  path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        typeof value === 'object' && value !== null
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      claims
+    )
+
+const resolveValues = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string')
+  }
+  return typeof value === 'string' ? value.split(' ') : []
+}
+
+const assertMatch = (
+  name: string,
+  values: string[],
+  { anyOf, allOf }: OpenIDGuardMatch
+) => {
+  const missing = allOf?.filter((value) => !values.includes(value)) ?? []
+  if (missing.length > 0) {
+    throw new OpenIDForbiddenError(`missing ${name} ${missing.join(' ')}`)
+  }
+  if (
+    anyOf !== undefined &&
+    anyOf.length > 0 &&
+    !anyOf.some((value) => values.includes(value))
+  ) {
+    throw new OpenIDForbiddenError(`requires any ${name} of ${anyOf.join(' ')}`)
+  }
+}
+
+export const openIDGuard: OpenIDGuard = (
+  verified,
+  {
+    token,
+    rolesClaim = 'roles',
+    groupsClaim = 'groups',
+    scope,
+    roles,
+    groups,
+    claims: expected
+  }
+) => {
+  const claims = resolveClaims(verified, token)
+  if (claims === undefined) {
+    throw new OpenIDForbiddenError('no verified claims')
+  }
+  if (scope !== undefined) {
+    assertMatch('scope', resolveScopes(claims), { allOf: scope })
+  }
+  if (roles !== undefined) {
+    assertMatch('roles', resolveValues(resolveClaim(claims, rolesClaim)), roles)
+  }
+  if (groups !== undefined) {
+    assertMatch(
+      'groups',
+      resolveValues(resolveClaim(claims, groupsClaim)),
+      groups
+    )
+  }
+  for (const [path, expectation] of Object.entries(expected ?? {})) {
+    const value = resolveClaim(claims, path)
+    const matches =
+      typeof expectation === 'function'
+        ? expectation(value, claims)
+        : value === expectation
+    if (!matches) {
+      throw new OpenIDForbiddenError(`claim ${path} does not match`)
+    }
+  }
+  return claims
+}
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Per-route requirements, see openIDGuardFactory
+    openid?: OpenIDGuardRequirements
+  }
+}
+
+// Route config keys declared with requirements, augment FastifyContextConfig
+// to read them from another key
+export type OpenIDGuardConfigKey = {
+  [K in keyof FastifyContextConfig]-?: FastifyContextConfig[K] extends
+    | OpenIDGuardRequirements
+    | undefined
+    ? K
+    : never
+}[keyof FastifyContextConfig]
+
+export interface OpenIDGuardHandlerOptions extends OpenIDGuardOptions {
+  // routeOptions.config property holding per-route requirements
+  config?: OpenIDGuardConfigKey
+  write?: OpenIDWriteTokens
+}
+
+export type OpenIDGuardFactory = (
+  options?: OpenIDGuardHandlerOptions
+) => OpenIDWriteTokens
+
+const resolveRouteRequirements = (
+  request: FastifyRequest,
+  config: OpenIDGuardConfigKey
+): OpenIDGuardRequirements | undefined => request.routeOptions.config[config]
+
+// Use as the verify `write` to guard routes after the tokens are verified
+export const openIDGuardFactory: OpenIDGuardFactory = ({
+  config = 'openid',
+  write,
+  ...options
+} = {}) =>
+  async function openIDGuardWrite(request, reply, tokenset, verified) {
+    openIDGuard(verified, options)
+    // Route requirements add to the factory requirements, both must be met
+    const route = resolveRouteRequirements(request, config)
+    if (route !== undefined) {
+      const { token, rolesClaim, groupsClaim } = options
+      openIDGuard(verified, { token, rolesClaim, groupsClaim, ...route })
+    }
+    request.log.trace('OpenID guard passed')
+    return await write?.call(this, request, reply, tokenset, verified)
+  }
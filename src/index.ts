@@ -1,10 +1,16 @@
 // Re-export key types from openid-client for convenience
 export type { Configuration, TokenEndpointResponse } from 'openid-client'
 export { discovery } from 'openid-client'
+export * from './discovery.js'
+export * from './dpop.js'
+export * from './guard.js'
 export * from './login.js'
 export * from './logout.js'
 export * from './plugin.js'
 export { default } from './plugin.js'
+export * from './providers.js'
 export * from './refresh.js'
+export * from './routes.js'
+export * from './store.js'
 export * from './types.js'
 export * from './verify.js'
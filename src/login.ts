@@ -1,17 +1,56 @@
-import createError from '@fastify/error'
-import type { RouteHandlerMethod } from 'fastify'
+import createError, { type FastifyError } from '@fastify/error'
+import type {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  RouteHandlerMethod
+} from 'fastify'
+import {
+  CompactEncrypt,
+  type CryptoKey,
+  decodeJwt,
+  type JWK,
+  type KeyObject
+} from 'jose'
 import {
   type AuthorizationCodeGrantOptions,
+  AuthorizationResponseError,
   authorizationCodeGrant,
   buildAuthorizationUrl,
+  buildAuthorizationUrlWithJAR,
+  buildAuthorizationUrlWithPAR,
   type Configuration,
   calculatePKCECodeChallenge,
+  type ModifyAssertionOptions,
+  type PrivateKey,
   randomNonce,
   randomPKCECodeVerifier,
-  randomState
+  randomState,
+  type TokenEndpointResponse,
+  useJwtResponseMode
 } from 'openid-client'
-import type { OpenIDSession, OpenIDWriteTokens, Resolvable } from './types.js'
-import { resolveParameters } from './utils.js'
+import {
+  calculateDPoPThumbprint,
+  generateDPoPKey,
+  type OpenIDDPoPKey,
+  OpenIDDPoPKeyMissingError,
+  type OpenIDDPoPOptions,
+  openIDDPoPHandle
+} from './dpop.js'
+import type {
+  OpenIDConfiguration,
+  OpenIDJWTVerified,
+  OpenIDSession,
+  OpenIDWriteTokens,
+  Resolvable
+} from './types.js'
+import {
+  matchesPath,
+  resolveConfiguration,
+  resolveFormBody,
+  resolveParameters,
+  stampExpiresAt
+} from './utils.js'
 import { type OpenIDVerifyOptions, openIDJWTVerify } from './verify.js'
 
 export type AuthorizationParameters = Record<string, string>
@@ -23,23 +62,135 @@ export type AuthorizationTokenEndpoint = {
   options?: AuthorizationCodeGrantOptions
 }
 
+export type AuthorizationRequestObjectEncryption = {
+  // Public encryption key of the issuer
+  key: CryptoKey | KeyObject | JWK | Uint8Array
+  alg: string
+  enc?: string
+  kid?: string
+}
+
+export type AuthorizationRequestObject = {
+  key: CryptoKey | PrivateKey
+  options?: ModifyAssertionOptions
+  encryption?: AuthorizationRequestObjectEncryption
+}
+
+export type OpenIDCallbackUrlResolver = (
+  request: FastifyRequest,
+  reply: FastifyReply,
+  redirectUri: string | undefined
+) => PromiseLike<URL | string> | URL | string
+
+// 'request' rebuilds the URL the callback was received on, 'redirect_uri'
+// appends the callback parameters to the redirect_uri of the login request
+export type OpenIDCallbackUrl =
+  | 'request'
+  | 'redirect_uri'
+  | OpenIDCallbackUrlResolver
+
+export type OpenIDReturnToOptions = {
+  // Query parameter holding the return URL, defaults to 'returnTo'
+  parameter?: string
+  // Falls back to the Referer header, defaults to true
+  referer?: boolean
+  // Origins (https://app.example.com) and path prefixes (/app) return URLs
+  // may point to, relative paths on any path are allowed by default
+  allow?: string[]
+  // Used when no allowed return URL was captured
+  default?: string
+}
+
+export type OpenIDAuthorizationErrorDetails = {
+  error: string
+  error_description?: string
+  error_uri?: string
+  state?: string
+}
+
+export type OpenIDAuthorizationErrorResponse = FastifyError &
+  OpenIDAuthorizationErrorDetails
+
+export type OpenIDLoginErrorHandler = (
+  this: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  error: OpenIDAuthorizationErrorResponse
+) => unknown
+
+export type OpenIDSilentLoginResult =
+  | {
+      authenticated: true
+      tokenset: TokenEndpointResponse
+      verified?: OpenIDJWTVerified
+    }
+  | { authenticated: false; error: OpenIDAuthorizationErrorResponse }
+
+export type OpenIDSilentLoginCallback = (
+  this: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  result: OpenIDSilentLoginResult
+) => unknown
+
+export interface OpenIDSilentLoginOptions {
+  // Reports the outcome of prompt=none callbacks instead of throwing
+  callback: OpenIDSilentLoginCallback
+}
+
 export type AuthorizationChecks = {
+  issuer?: string
   state?: string
   nonce?: string
   pkceCodeVerifier?: string
+  // DPoP key the authorization code is bound to
+  dpop?: OpenIDDPoPKey
+  // Seconds since the epoch
+  issuedAt?: number
+  // Validated URL to redirect to after the callback
+  returnTo?: string
+  // Authorization requested with prompt=none
+  silent?: boolean
+}
+
+// Pending authorization requests keyed by state
+export type AuthorizationRequests = Record<string, AuthorizationChecks>
+
+export type AuthorizationRequestsLimits = {
+  // Defaults to 10 requests
+  max?: number
+  // Defaults to 600 seconds
+  maxAge?: number
 }
 
 export interface OpenIDLoginHandlerOptions {
   parameters?: Resolvable<AuthorizationParameters>
   usePKCE?: boolean | 'plain' | 'S256'
+  // Defaults to require_pushed_authorization_requests of the issuer
+  usePAR?: boolean
+  // Signs the authorization parameters into a request object (JAR)
+  requestObject?: AuthorizationRequestObject
+  // Requests and validates JWT secured authorization responses (JARM)
+  useJwtResponseMode?: boolean
+  // Defaults to 'request'
+  callbackUrl?: OpenIDCallbackUrl
+  // Binds the authorization code and tokens to a per-session DPoP key
+  dpop?: OpenIDDPoPOptions
   tokenEndpoint?: AuthorizationTokenEndpoint
   verify?: OpenIDVerifyOptions
   write?: OpenIDWriteTokens
-  session: OpenIDSession<AuthorizationChecks>
+  // Bounds the authorization requests pending in the session
+  pendingRequests?: AuthorizationRequestsLimits
+  // Redirects back to the originating URL after the callback
+  returnTo?: OpenIDReturnToOptions | boolean
+  // Handles error responses of the authorization endpoint instead of throwing
+  onError?: OpenIDLoginErrorHandler
+  silent?: OpenIDSilentLoginOptions
+  session: OpenIDSession<AuthorizationRequests>
 }
 
 export type OpenIDLoginHandlerFactory = (
-  config: Configuration,
+  config: OpenIDConfiguration,
   options: OpenIDLoginHandlerOptions
 ) => RouteHandlerMethod
 
@@ -61,6 +212,73 @@ export const SupportedMethodError = createError(
   500
 )
 
+export const OpenIDAuthorizationError = createError(
+  'FST_OPENID_AUTHORIZATION',
+  'authorization request failed: %s',
+  400
+)
+
+export const OpenIDAccessDeniedError = createError(
+  'FST_OPENID_ACCESS_DENIED',
+  'authorization request denied: %s',
+  403
+)
+
+export const OpenIDLoginRequiredError = createError(
+  'FST_OPENID_LOGIN_REQUIRED',
+  'authorization request requires login: %s',
+  401
+)
+
+export const OpenIDConsentRequiredError = createError(
+  'FST_OPENID_CONSENT_REQUIRED',
+  'authorization request requires consent: %s',
+  403
+)
+
+export const OpenIDInteractionRequiredError = createError(
+  'FST_OPENID_INTERACTION_REQUIRED',
+  'authorization request requires interaction: %s',
+  401
+)
+
+type AuthorizationErrorConstructor = new (message: string) => FastifyError
+
+// Errors reporting that the user has to interact with the OP
+const INTERACTION_ERRORS = new Set([
+  'login_required',
+  'interaction_required',
+  'consent_required',
+  'account_selection_required'
+])
+
+const AUTHORIZATION_ERRORS: Record<string, AuthorizationErrorConstructor> = {
+  access_denied: OpenIDAccessDeniedError,
+  login_required: OpenIDLoginRequiredError,
+  consent_required: OpenIDConsentRequiredError,
+  interaction_required: OpenIDInteractionRequiredError,
+  account_selection_required: OpenIDInteractionRequiredError
+}
+
+// Maps an error response of the authorization endpoint to a typed error
+export const createAuthorizationError = (
+  parameters: URLSearchParams
+): OpenIDAuthorizationErrorResponse => {
+  const details: OpenIDAuthorizationErrorDetails = {
+    error: parameters.get('error') ?? 'server_error',
+    error_description: parameters.get('error_description') ?? undefined,
+    error_uri: parameters.get('error_uri') ?? undefined,
+    state: parameters.get('state') ?? undefined
+  }
+  const AuthorizationError = Object.hasOwn(AUTHORIZATION_ERRORS, details.error)
+    ? AUTHORIZATION_ERRORS[details.error]
+    : OpenIDAuthorizationError
+  return Object.assign(
+    new AuthorizationError(details.error_description ?? details.error),
+    details
+  )
+}
+
 const resolveRedirectUri = (config: Configuration): string | undefined => {
   const redirectUris = config.clientMetadata().redirect_uris
   if (!Array.isArray(redirectUris) || redirectUris.length !== 1) {
@@ -83,26 +301,249 @@ const resolveSupportedMethod = (config: Configuration): string => {
   throw new SupportedMethodError()
 }
 
+const FORM_CONTENT_TYPE = 'application/x-www-form-urlencoded'
+
+// form_post responses are POSTed as form bodies, other responses are queries
+const resolveCallbackParameters = (
+  request: FastifyRequest
+): URLSearchParams => {
+  const body =
+    request.method === 'POST' ? resolveFormBody(request.body) : undefined
+  return new URLSearchParams(body ?? (request.query as Record<string, string>))
+}
+
+// Authorization responses carry a code or error, or a JARM response JWT
+export const isAuthorizationCallback = (request: FastifyRequest): boolean => {
+  const parameters = resolveCallbackParameters(request)
+  return (
+    parameters.has('code') ||
+    parameters.has('error') ||
+    parameters.has('response')
+  )
+}
+
+// Parses form_post callbacks unless a form body parser is already registered
+export const openIDRegisterFormBodyParser = (fastify: FastifyInstance) => {
+  if (fastify.hasContentTypeParser(FORM_CONTENT_TYPE)) {
+    return
+  }
+  fastify.addContentTypeParser(
+    FORM_CONTENT_TYPE,
+    { parseAs: 'string' },
+    (_request, body, done) => {
+      done(null, Object.fromEntries(new URLSearchParams(body as string)))
+    }
+  )
+}
+
+const lastHeaderValue = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value.join(',') : value)?.split(',').at(-1)?.trim() ||
+  undefined
+
+// Reads proto and host of the element appended by the nearest proxy, like
+// Fastify reads the last X-Forwarded-Proto and X-Forwarded-Host values. The
+// first element is set by the client and cannot be trusted
+const parseForwarded = (
+  value: string | string[] | undefined
+): Record<string, string | undefined> =>
+  Object.fromEntries(
+    (lastHeaderValue(value) ?? '')
+      .split(';')
+      .map((pair) => pair.split('='))
+      .filter(([key, value]) => key && value)
+      .map(([key, value]) => [
+        key.trim().toLowerCase(),
+        value.trim().replace(/^"(.*)"$/, '$1')
+      ])
+  )
+
+const resolveRequestUrl = (request: FastifyRequest): URL => {
+  // Fastify only decorates ips when trustProxy is set
+  if (request.ips === undefined) {
+    // Always include port to match the original redirect_uri
+    return new URL(
+      `${request.protocol}://${request.hostname}:${request.socket.localPort}${request.url}`
+    )
+  }
+  // X-Forwarded-Proto and X-Forwarded-Host are applied by Fastify
+  const { headers } = request
+  const forwarded = parseForwarded(headers.forwarded)
+  const protocol = forwarded.proto ?? request.protocol
+  const host = forwarded.host ?? request.host
+  // Path rewriting proxies strip the public prefix from the request URL
+  const prefix = lastHeaderValue(headers['x-forwarded-prefix']) ?? ''
+  const url = new URL(
+    `${protocol}://${host}${prefix.replace(/\/$/, '')}${request.url}`
+  )
+  const port = lastHeaderValue(headers['x-forwarded-port'])
+  if (forwarded.host === undefined && port !== undefined) {
+    url.port = port
+  }
+  return url
+}
+
+const resolveCallbackUrl = async (
+  callbackUrl: OpenIDCallbackUrl,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  redirectUri: string | undefined
+): Promise<URL> => {
+  if (typeof callbackUrl === 'function') {
+    return new URL(await callbackUrl(request, reply, redirectUri))
+  }
+  if (callbackUrl === 'request' || redirectUri === undefined) {
+    return resolveRequestUrl(request)
+  }
+  const url = new URL(redirectUri)
+  const { searchParams } = new URL(request.url, url)
+  for (const [key, value] of searchParams) {
+    url.searchParams.append(key, value)
+  }
+  return url
+}
+
+// Drops expired and malformed requests and keeps the most recent ones
+const prunePendingRequests = (
+  requests: AuthorizationRequests | undefined,
+  { max = 10, maxAge = 600 }: AuthorizationRequestsLimits = {}
+): AuthorizationRequests => {
+  const now = Math.floor(Date.now() / 1000)
+  return Object.fromEntries(
+    Object.entries(requests ?? {})
+      .filter(
+        ([, checks]) =>
+          typeof checks === 'object' &&
+          checks !== null &&
+          (checks.issuedAt === undefined || now - checks.issuedAt < maxAge)
+      )
+      // Requests issued in the same second keep their insertion order
+      .sort(([, a], [, b]) => (a.issuedAt ?? 0) - (b.issuedAt ?? 0))
+      .slice(-max)
+  )
+}
+
+// JARM responses carry the state in the response JWT, encrypted responses
+// are only matched when a single request is pending
+const resolveCallbackState = (request: FastifyRequest): string | undefined => {
+  const parameters = resolveCallbackParameters(request)
+  const response = parameters.get('response')
+  if (response === null) {
+    return parameters.get('state') ?? undefined
+  }
+  try {
+    const { state } = decodeJwt(response)
+    return typeof state === 'string' ? state : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Finds the pending request a callback responds to, without consuming it
+export const resolveAuthorizationChecks = (
+  requests: AuthorizationRequests | undefined,
+  request: FastifyRequest
+): AuthorizationChecks | undefined => {
+  const state = resolveCallbackState(request)
+  if (state === undefined) {
+    const pending = Object.values(requests ?? {})
+    return pending.length === 1 ? pending[0] : undefined
+  }
+  return requests !== undefined && Object.hasOwn(requests, state)
+    ? requests[state]
+    : undefined
+}
+
+// Only allowed origins and paths are returned, preventing open redirects
+const resolveReturnTo = (
+  request: FastifyRequest,
+  { parameter = 'returnTo', referer = true, allow = [] }: OpenIDReturnToOptions
+): string | undefined => {
+  const query = request.query as Record<string, string | undefined>
+  const value =
+    query[parameter] ?? (referer ? request.headers.referer : undefined)
+  if (typeof value !== 'string' || value === '') {
+    return undefined
+  }
+  const origins = allow.filter((entry) => !entry.startsWith('/'))
+  const paths = allow.filter((entry) => entry.startsWith('/'))
+  const origin = `${request.protocol}://${request.host}`
+  const isRelative = value.startsWith('/') && !/^\/[/\\]/.test(value)
+  if (!isRelative && !URL.canParse(value)) {
+    return undefined
+  }
+  // Parsing normalizes dot segments, which could escape an allowed path
+  const url = new URL(value, origin)
+  const sameOrigin = url.origin === origin
+  if (
+    (!isRelative && !sameOrigin && !origins.includes(url.origin)) ||
+    (paths.length > 0 && !paths.some((path) => matchesPath(url.pathname, path)))
+  ) {
+    return undefined
+  }
+  const path = `${url.pathname}${url.search}${url.hash}`
+  return isRelative || sameOrigin ? path : url.href
+}
+
+// Signs, and optionally encrypts, the parameters into a request parameter
+const buildRequestObjectParameters = async (
+  config: Configuration,
+  parameters: Record<string, string>,
+  { key, options, encryption }: AuthorizationRequestObject
+): Promise<URLSearchParams> => {
+  const { searchParams } = await buildAuthorizationUrlWithJAR(
+    config,
+    parameters,
+    key,
+    options
+  )
+  const request = searchParams.get('request')
+  if (encryption !== undefined && request !== null) {
+    const { key: encryptionKey, alg, enc = 'A128CBC-HS256', kid } = encryption
+    searchParams.set(
+      'request',
+      await new CompactEncrypt(new TextEncoder().encode(request))
+        .setProtectedHeader({ alg, enc, kid, cty: 'JWT' })
+        .encrypt(encryptionKey)
+    )
+  }
+  return searchParams
+}
+
 export const openIDLoginHandlerFactory: OpenIDLoginHandlerFactory = (
-  config,
+  configuration,
   options
 ) => {
-  const usePKCE =
-    options.usePKCE !== undefined
-      ? options.usePKCE === true
-        ? resolveSupportedMethod(config)
-        : options.usePKCE
-      : false
-
-  const { verify, write, tokenEndpoint, session } = { ...options }
+  const {
+    callbackUrl = 'request',
+    dpop,
+    returnTo,
+    onError,
+    silent,
+    verify,
+    write,
+    tokenEndpoint,
+    session
+  } = { ...options }
 
   return async function openIDLoginHandler(request, reply) {
+    const config = await resolveConfiguration(configuration)
+    const usePKCE =
+      options.usePKCE !== undefined
+        ? options.usePKCE === true
+          ? resolveSupportedMethod(config)
+          : options.usePKCE
+        : false
+
     const params = await resolveParameters(options.parameters, request, reply)
     const redirect_uri = params?.redirect_uri ?? resolveRedirectUri(config)
 
-    // Check if this is a callback (has code or error in query)
-    const query = request.query as Record<string, string>
-    const isCallback = query.code !== undefined || query.error !== undefined
+    if (options.useJwtResponseMode === true) {
+      // Sets response_mode=jwt and validates the response parameter
+      useJwtResponseMode(config)
+    }
+
+    // Check if this is a callback (has code, error or response parameters)
+    const isCallback = isAuthorizationCallback(request)
 
     // #region authentication request
     if (!isCallback) {
@@ -119,8 +560,23 @@ export const openIDLoginHandlerFactory: OpenIDLoginHandlerFactory = (
       }
 
       const callbackChecks: AuthorizationChecks = {
+        issuer: config.serverMetadata().issuer,
         state,
-        nonce
+        nonce,
+        issuedAt: Math.floor(Date.now() / 1000)
+      }
+
+      if (parameters.prompt === 'none') {
+        callbackChecks.silent = true
+      }
+
+      if (returnTo !== undefined && returnTo !== false) {
+        const returnToOptions = returnTo === true ? {} : returnTo
+        const url =
+          resolveReturnTo(request, returnToOptions) ?? returnToOptions.default
+        if (url !== undefined) {
+          callbackChecks.returnTo = url
+        }
       }
 
       if (usePKCE !== false) {
@@ -140,16 +596,56 @@ export const openIDLoginHandlerFactory: OpenIDLoginHandlerFactory = (
         }
       }
 
-      session.set(request, reply, callbackChecks)
+      if (dpop !== undefined) {
+        // A new key pair is generated for every login, the session keeps the
+        // key of the current tokens until the code exchange succeeds
+        const key = await generateDPoPKey(dpop.alg)
+        callbackChecks.dpop = key
+        parameters.dpop_jkt = await calculateDPoPThumbprint(key)
+      }
+
+      // Parallel logins each keep their own pending request
+      await session.set(
+        request,
+        reply,
+        prunePendingRequests(
+          { ...(await session.get(request, reply)), [state]: callbackChecks },
+          options.pendingRequests
+        )
+      )
 
-      const authUrl = buildAuthorizationUrl(config, parameters)
+      const usePAR =
+        options.usePAR ??
+        config.serverMetadata().require_pushed_authorization_requests === true
+      const authParameters =
+        options.requestObject !== undefined
+          ? await buildRequestObjectParameters(
+              config,
+              parameters,
+              options.requestObject
+            )
+          : parameters
+      // Pushed parameters are only referenced by request_uri in the redirect
+      const authUrl = usePAR
+        ? await buildAuthorizationUrlWithPAR(
+            config,
+            authParameters,
+            callbackChecks.dpop !== undefined
+              ? { DPoP: await openIDDPoPHandle(config, callbackChecks.dpop) }
+              : undefined
+          )
+        : buildAuthorizationUrl(config, authParameters)
       request.log.trace('OpenID login redirect')
       return await reply.redirect(authUrl.href)
     }
     // #endregion
 
     // #region authentication response
-    const callbackChecks = session.get(request, reply)
+    const requests = prunePendingRequests(
+      await session.get(request, reply),
+      options.pendingRequests
+    )
+    const callbackChecks = resolveAuthorizationChecks(requests, request)
     if (
       callbackChecks === undefined ||
       Object.keys(callbackChecks).length === 0
@@ -157,30 +653,130 @@ export const openIDLoginHandlerFactory: OpenIDLoginHandlerFactory = (
       throw new SessionValueError()
     }
 
-    session.set(request, reply, undefined)
-
-    // Build the current URL from the request
-    // Always include port to match the original redirect_uri
-    const currentUrl = new URL(
-      `${request.protocol}://${request.hostname}:${request.socket.localPort}${request.url}`
+    // A pending request is consumed by the first callback responding to it
+    const remaining = Object.fromEntries(
+      Object.entries(requests).filter(([, checks]) => checks !== callbackChecks)
+    )
+    await session.set(
+      request,
+      reply,
+      Object.keys(remaining).length > 0 ? remaining : undefined
     )
 
-    const tokenset = await authorizationCodeGrant(
-      config,
-      currentUrl,
-      {
-        pkceCodeVerifier: callbackChecks.pkceCodeVerifier,
-        expectedState: callbackChecks.state,
-        expectedNonce: callbackChecks.nonce
-      },
-      await resolveParameters(tokenEndpoint?.parameters, request, reply),
-      tokenEndpoint?.options
+    if (dpop !== undefined && callbackChecks.dpop === undefined) {
+      throw new OpenIDDPoPKeyMissingError()
+    }
+
+    const currentUrl = await resolveCallbackUrl(
+      callbackUrl,
+      request,
+      reply,
+      redirect_uri
     )
 
+    // POSTed parameters are passed on as the form body they were sent as
+    const callbackRequest =
+      request.method === 'POST'
+        ? new Request(currentUrl, {
+            method: 'POST',
+            headers: { 'content-type': FORM_CONTENT_TYPE },
+            body: resolveCallbackParameters(request)
+          })
+        : currentUrl
+
+    let tokenset: Awaited<ReturnType<typeof authorizationCodeGrant>>
+    try {
+      tokenset = await authorizationCodeGrant(
+        config,
+        callbackRequest,
+        {
+          pkceCodeVerifier: callbackChecks.pkceCodeVerifier,
+          expectedState: callbackChecks.state,
+          expectedNonce: callbackChecks.nonce
+        },
+        await resolveParameters(tokenEndpoint?.parameters, request, reply),
+        callbackChecks.dpop !== undefined
+          ? {
+              ...tokenEndpoint?.options,
+              DPoP: await openIDDPoPHandle(config, callbackChecks.dpop)
+            }
+          : tokenEndpoint?.options
+      )
+    } catch (error) {
+      // The state of error responses is validated before they are reported
+      if (!(error instanceof AuthorizationResponseError)) {
+        throw error
+      }
+      const authorizationError = createAuthorizationError(error.cause)
+      if (
+        callbackChecks.silent === true &&
+        silent !== undefined &&
+        INTERACTION_ERRORS.has(authorizationError.error)
+      ) {
+        return await silent.callback.call(this, request, reply, {
+          authenticated: false,
+          error: authorizationError
+        })
+      }
+      if (onError === undefined) {
+        throw authorizationError
+      }
+      request.log.trace(`OpenID login error ${authorizationError.error}`)
+      return await onError.call(this, request, reply, authorizationError)
+    }
+
+    if (dpop !== undefined && callbackChecks.dpop !== undefined) {
+      // The new tokens are bound to the key of this login
+      await dpop.session.set(request, reply, callbackChecks.dpop)
+    }
+
+    stampExpiresAt(tokenset)
     const verified =
-      verify !== undefined ? await openIDJWTVerify(tokenset, verify) : undefined
+      verify !== undefined
+        ? await openIDJWTVerify(tokenset, verify, config)
+        : undefined
     request.log.trace('OpenID login callback')
-    return await write?.call(this, request, reply, tokenset, verified)
+    let result: unknown = await write?.call(
+      this,
+      request,
+      reply,
+      tokenset,
+      verified
+    )
+    if (
+      callbackChecks.silent === true &&
+      silent !== undefined &&
+      result === undefined &&
+      !reply.sent
+    ) {
+      result = await silent.callback.call(this, request, reply, {
+        authenticated: true,
+        tokenset,
+        verified
+      })
+    }
+    // A reply sent or returned by write takes precedence over the redirect
+    if (
+      callbackChecks.returnTo !== undefined &&
+      result === undefined &&
+      !reply.sent
+    ) {
+      return await reply.redirect(callbackChecks.returnTo)
+    }
+    return result
     // #endregion
   }
 }
+
+export type OpenIDSilentLoginHandlerFactory = OpenIDLoginHandlerFactory
+
+// Login handler checking for an existing OP session without user interaction
+export const openIDSilentLoginHandlerFactory: OpenIDSilentLoginHandlerFactory =
+  (configuration, options) =>
+    openIDLoginHandlerFactory(configuration, {
+      ...options,
+      parameters: async (request, reply) => ({
+        ...(await resolveParameters(options.parameters, request, reply)),
+        prompt: 'none'
+      })
+    })
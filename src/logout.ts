@@ -1,49 +1,158 @@
-import type { RouteHandlerMethod } from 'fastify'
-import { buildEndSessionUrl, type Configuration } from 'openid-client'
+import createError from '@fastify/error'
 import type {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  RouteHandlerMethod
+} from 'fastify'
+import { decodeJwt, type JWTPayload, type JWTVerifyOptions } from 'jose'
+import {
+  buildEndSessionUrl,
+  type Configuration,
+  randomState,
+  type TokenEndpointResponse,
+  tokenRevocation
+} from 'openid-client'
+import type {
+  OpenIDConfiguration,
   OpenIDReadTokens,
+  OpenIDSession,
   OpenIDWriteTokens,
   Resolvable
 } from './types.js'
-import { resolveParameters } from './utils.js'
-import { type OpenIDVerifyOptions, openIDJWTVerify } from './verify.js'
+import {
+  resolveConfiguration,
+  resolveFormBody,
+  resolveParameters,
+  verifyJWT
+} from './utils.js'
+import {
+  isInvalidTokenError,
+  type OpenIDVerifyKey,
+  type OpenIDVerifyOptions,
+  openIDJWTVerify,
+  openIDJWTVerifyOptions,
+  resolveVerifyKey
+} from './verify.js'
 
 export type EndSessionParameters = Record<string, string>
 
+export type OpenIDRevokeToken = 'refresh_token' | 'access_token'
+
+export const OpenIDLogoutStateError = createError(
+  'FST_OPENID_LOGOUT_STATE',
+  'invalid logout state: %s',
+  400
+)
+
 export interface OpenIDLogoutHandlerOptions {
   parameters?: Resolvable<EndSessionParameters>
+  // Stores the state sent to the OP, the callback is rejected when it differs
+  session?: OpenIDSession<string>
   verify?: OpenIDVerifyOptions
+  // Tokens revoked at the revocation endpoint before leaving the application
+  revoke?: OpenIDRevokeToken[]
   read: OpenIDReadTokens
   write?: OpenIDWriteTokens
 }
 
 export type OpenIDLogoutHandlerFactory = (
-  config: Configuration,
+  config: OpenIDConfiguration,
   options: OpenIDLogoutHandlerOptions
 ) => RouteHandlerMethod
 
+// The OP appends state to post_logout_redirect_uri, so only its own
+// parameters have to match
+const isLogoutCallback = (request: FastifyRequest, redirectUri: string) => {
+  const { pathname, searchParams } = new URL(redirectUri)
+  const url = new URL(request.url, 'http://localhost')
+  if (url.pathname !== pathname) {
+    return false
+  }
+  for (const [name, value] of searchParams) {
+    if (!url.searchParams.getAll(name).includes(value)) {
+      return false
+    }
+  }
+  return true
+}
+
+// Revocation is best effort, a failure must not keep the user logged in
+const revokeTokens = async (
+  config: Configuration,
+  tokenset: Partial<TokenEndpointResponse>,
+  revoke: OpenIDRevokeToken[],
+  request: FastifyRequest
+) => {
+  if (config.serverMetadata().revocation_endpoint === undefined) {
+    request.log.debug('OpenID provider does not support token revocation')
+    return
+  }
+  for (const token_type_hint of revoke) {
+    const token = tokenset[token_type_hint]
+    if (token === undefined) {
+      continue
+    }
+    try {
+      await tokenRevocation(config, token, { token_type_hint })
+    } catch (error) {
+      request.log.warn(error, `OpenID ${token_type_hint} could not be revoked`)
+    }
+  }
+}
+
 export const openIDLogoutHandlerFactory: OpenIDLogoutHandlerFactory = (
-  config,
-  { parameters, verify, read, write }
+  configuration,
+  { parameters, session, verify, revoke = [], read, write }
 ) =>
   async function openIDLogoutHandler(request, reply) {
+    const config = await resolveConfiguration(configuration)
     const tokenset = await read.call(this, request, reply)
     // Always resolve parameters (object or function)
     const params = await resolveParameters(parameters, request, reply)
 
     // If post_logout_redirect_uri is present, handle callback logic
-    if (params?.post_logout_redirect_uri) {
-      const { pathname, search } = new URL(params.post_logout_redirect_uri)
-      if (request.url === `${pathname}${search}`) {
-        const verified = verify
-          ? await openIDJWTVerify(tokenset, verify)
-          : undefined
-        return await write?.call(this, request, reply, tokenset, verified)
+    const redirectUri = params?.post_logout_redirect_uri
+    if (redirectUri && isLogoutCallback(request, redirectUri)) {
+      if (session !== undefined) {
+        const expected = await session.get(request, reply)
+        // A state is only accepted once
+        await session.set(request, reply, undefined)
+        const { state } = request.query as { state?: string }
+        if (expected === undefined || state !== expected) {
+          throw new OpenIDLogoutStateError(
+            state === undefined ? 'missing state parameter' : 'state mismatch'
+          )
+        }
       }
+      const verified = verify
+        ? await openIDJWTVerify(tokenset, verify, config)
+        : undefined
+      return await write?.call(this, request, reply, tokenset, verified)
     }
 
-    // Build end session params and redirect
+    await revokeTokens(config, tokenset, revoke, request)
+
     const endSessionParams = { ...params }
+    if (redirectUri && session !== undefined) {
+      endSessionParams.state ??= randomState()
+      await session.set(request, reply, endSessionParams.state)
+    }
+
+    // Without an end session endpoint only the local session is ended
+    if (config.serverMetadata().end_session_endpoint === undefined) {
+      request.log.trace('OpenID local logout')
+      if (redirectUri) {
+        const url = new URL(redirectUri)
+        if (endSessionParams.state !== undefined) {
+          url.searchParams.set('state', endSessionParams.state)
+        }
+        return reply.redirect(url.href)
+      }
+      return await write?.call(this, request, reply, tokenset)
+    }
+
+    // Build end session params and redirect
     const { id_token: id_token_hint } = tokenset
     if (id_token_hint) {
       endSessionParams.id_token_hint = id_token_hint
@@ -51,3 +160,181 @@ export const openIDLogoutHandlerFactory: OpenIDLogoutHandlerFactory = (
     const endSessionUrl = buildEndSessionUrl(config, endSessionParams)
     return reply.redirect(endSessionUrl.href)
   }
+
+export const BACKCHANNEL_LOGOUT_EVENT =
+  'http://schemas.openid.net/event/backchannel-logout'
+
+export const OpenIDLogoutTokenError = createError(
+  'FST_OPENID_LOGOUT_TOKEN',
+  'invalid logout_token: %s',
+  400
+)
+
+export type OpenIDLogoutTokenClaims = JWTPayload & {
+  sid?: string
+  events: Record<string, unknown>
+}
+
+export type OpenIDBackchannelLogout = (
+  this: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  claims: OpenIDLogoutTokenClaims
+) => PromiseLike<void> | void
+
+export type OpenIDLogoutTokenReplay = {
+  has: (jti: string) => PromiseLike<boolean> | boolean
+  add: (jti: string, expiresAt: number) => PromiseLike<void> | void
+}
+
+export interface OpenIDBackchannelLogoutHandlerOptions {
+  verify: Omit<OpenIDVerifyOptions, 'tokens' | 'introspection'>
+  replay?: OpenIDLogoutTokenReplay
+  logout: OpenIDBackchannelLogout
+}
+
+export type OpenIDBackchannelLogoutHandlerFactory = (
+  config: OpenIDConfiguration,
+  options: OpenIDBackchannelLogoutHandlerOptions
+) => RouteHandlerMethod
+
+// Default replay cache, entries are dropped once the logout_token expires
+const memoryLogoutTokenReplay = (): OpenIDLogoutTokenReplay => {
+  const seen = new Map<string, number>()
+  return {
+    has(jti) {
+      const now = Date.now() / 1000
+      for (const [key, expiresAt] of seen) {
+        if (expiresAt < now) {
+          seen.delete(key)
+        }
+      }
+      return seen.has(jti)
+    },
+    add(jti, expiresAt) {
+      seen.set(jti, expiresAt)
+    }
+  }
+}
+
+const verifyLogoutToken = async (
+  logoutToken: string,
+  key: OpenIDVerifyKey,
+  options: JWTVerifyOptions
+): Promise<JWTPayload> => {
+  try {
+    const { payload } = await verifyJWT(logoutToken, key, options)
+    return payload
+  } catch (error) {
+    // Failures not caused by the logout_token (e.g. JWKS fetch timeouts) are
+    // server errors
+    if (!isInvalidTokenError(error)) {
+      throw error
+    }
+    throw new OpenIDLogoutTokenError((error as Error).message, {
+      cause: error
+    })
+  }
+}
+
+export const openIDBackchannelLogoutHandlerFactory: OpenIDBackchannelLogoutHandlerFactory =
+  (configuration, { verify, replay = memoryLogoutTokenReplay(), logout }) =>
+    async function openIDBackchannelLogoutHandler(request, reply) {
+      const config = await resolveConfiguration(configuration)
+      const logoutToken = resolveFormBody(request.body)?.logout_token
+      if (typeof logoutToken !== 'string' || logoutToken === '') {
+        throw new OpenIDLogoutTokenError('missing logout_token parameter')
+      }
+
+      const { key, options } = verify
+      const verifyOptions: JWTVerifyOptions = {
+        ...openIDJWTVerifyOptions(config, 'logout_token'),
+        requiredClaims: ['iss', 'aud', 'iat', 'exp', 'jti', 'events'],
+        ...options
+      }
+      const payload = await verifyLogoutToken(
+        logoutToken,
+        resolveVerifyKey(key, config),
+        verifyOptions
+      )
+
+      const { events, nonce, sid, sub, jti, exp } = payload
+      const event =
+        typeof events === 'object' && events !== null
+          ? (events as Record<string, unknown>)[BACKCHANNEL_LOGOUT_EVENT]
+          : undefined
+      if (typeof event !== 'object' || event === null) {
+        throw new OpenIDLogoutTokenError(
+          `events claim must contain ${BACKCHANNEL_LOGOUT_EVENT}`
+        )
+      }
+      if (nonce !== undefined) {
+        throw new OpenIDLogoutTokenError('nonce claim is prohibited')
+      }
+      if (sid === undefined && sub === undefined) {
+        throw new OpenIDLogoutTokenError('sid or sub claim is required')
+      }
+      if (typeof jti !== 'string' || (await replay.has(jti))) {
+        throw new OpenIDLogoutTokenError('jti claim has already been used')
+      }
+      await replay.add(jti, exp ?? 0)
+
+      reply.header('cache-control', 'no-store')
+      request.log.trace('OpenID backchannel logout')
+      return await logout.call(
+        this,
+        request,
+        reply,
+        payload as OpenIDLogoutTokenClaims
+      )
+    }
+
+export const OpenIDFrontchannelLogoutError = createError(
+  'FST_OPENID_FRONTCHANNEL_LOGOUT',
+  'front-channel logout request does not match the current session: %s',
+  400
+)
+
+export type FrontchannelLogoutParameters = {
+  iss?: string
+  sid?: string
+}
+
+export interface OpenIDFrontchannelLogoutHandlerOptions {
+  read: OpenIDReadTokens
+  write?: OpenIDWriteTokens
+}
+
+export type OpenIDFrontchannelLogoutHandlerFactory = (
+  config: OpenIDConfiguration,
+  options: OpenIDFrontchannelLogoutHandlerOptions
+) => RouteHandlerMethod
+
+export const openIDFrontchannelLogoutHandlerFactory: OpenIDFrontchannelLogoutHandlerFactory =
+  (configuration, { read, write }) =>
+    async function openIDFrontchannelLogoutHandler(request, reply) {
+      const config = await resolveConfiguration(configuration)
+      const { iss, sid } = request.query as FrontchannelLogoutParameters
+      const required =
+        config.clientMetadata().frontchannel_logout_session_required === true
+      if (required && (iss === undefined || sid === undefined)) {
+        throw new OpenIDFrontchannelLogoutError('iss and sid are required')
+      }
+      if (iss !== undefined && iss !== config.serverMetadata().issuer) {
+        throw new OpenIDFrontchannelLogoutError('iss')
+      }
+      if (sid !== undefined) {
+        const { id_token } = await read.call(this, request, reply)
+        // The id_token was verified when it was issued, we only need its sid
+        const claims = id_token !== undefined ? decodeJwt(id_token) : undefined
+        if (claims?.sid !== sid) {
+          throw new OpenIDFrontchannelLogoutError('sid')
+        }
+      }
+
+      // The response is rendered in an iframe by the OP and must not be cached
+      reply.header('cache-control', 'no-cache, no-store')
+      reply.header('pragma', 'no-cache')
+      request.log.trace('OpenID frontchannel logout')
+      return await write?.call(this, request, reply, {})
+    }
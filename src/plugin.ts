@@ -1,18 +1,36 @@
 import type { FastifyPluginAsync, RouteHandlerMethod } from 'fastify'
 import fp from 'fastify-plugin'
-import type { Configuration } from 'openid-client'
+import {
+  type OpenIDDiscoveryOptions,
+  openIDLazyDiscovery,
+  openIDRediscoverOnError
+} from './discovery.js'
 import {
   type OpenIDLoginHandlerOptions,
-  openIDLoginHandlerFactory
+  openIDLoginHandlerFactory,
+  openIDSilentLoginHandlerFactory
 } from './login.js'
 import {
+  type OpenIDFrontchannelLogoutHandlerOptions,
   type OpenIDLogoutHandlerOptions,
+  openIDFrontchannelLogoutHandlerFactory,
   openIDLogoutHandlerFactory
 } from './logout.js'
+import {
+  type OpenIDProviderResolver,
+  type OpenIDProviders,
+  openIDProvidersHandlersFactory
+} from './providers.js'
 import {
   type OpenIDRefreshHandlerOptions,
   openIDRefreshHandlerFactory
 } from './refresh.js'
+import {
+  type OpenIDRouteDefaults,
+  type OpenIDRoutesOptions,
+  openIDRegisterRoutes
+} from './routes.js'
+import type { OpenIDConfiguration } from './types.js'
 import {
   type OpenIDVerifyHandlerOptions,
   openIDVerifyHandlerFactory
@@ -20,9 +38,11 @@ import {
 
 export interface OpenIDAuthHandlers {
   login: RouteHandlerMethod
+  silentLogin: RouteHandlerMethod
   verify: RouteHandlerMethod
   refresh: RouteHandlerMethod
   logout: RouteHandlerMethod
+  frontchannelLogout: RouteHandlerMethod
 }
 
 export type OpenIDHandlersOptions = {
@@ -30,36 +50,127 @@ export type OpenIDHandlersOptions = {
   verify: OpenIDVerifyHandlerOptions
   refresh: OpenIDRefreshHandlerOptions
   logout: OpenIDLogoutHandlerOptions
+  frontchannelLogout?: OpenIDFrontchannelLogoutHandlerOptions
 }
 
 export type OpenIDHandlersFactory = (
-  config: Configuration,
+  config: OpenIDConfiguration,
   options: OpenIDHandlersOptions
 ) => OpenIDAuthHandlers
 
 export const openIDHandlersFactory: OpenIDHandlersFactory = (
   config,
-  { login, refresh, verify, logout }
-) => ({
-  login: openIDLoginHandlerFactory(config, login),
-  refresh: openIDRefreshHandlerFactory(config, refresh),
-  verify: openIDVerifyHandlerFactory(verify),
-  logout: openIDLogoutHandlerFactory(config, logout)
-})
+  { login, refresh, verify, logout, frontchannelLogout }
+) => {
+  const handlers: OpenIDAuthHandlers = {
+    login: openIDLoginHandlerFactory(config, login),
+    silentLogin: openIDSilentLoginHandlerFactory(config, login),
+    refresh: openIDRefreshHandlerFactory(config, refresh),
+    verify: openIDVerifyHandlerFactory(verify, config),
+    logout: openIDLogoutHandlerFactory(config, logout),
+    frontchannelLogout: openIDFrontchannelLogoutHandlerFactory(
+      config,
+      frontchannelLogout ?? { read: logout.read, write: logout.write }
+    )
+  }
+  if (typeof config !== 'function') {
+    return handlers
+  }
+  return Object.fromEntries(
+    Object.entries(handlers).map(([name, handler]) => [
+      name,
+      openIDRediscoverOnError(config, handler)
+    ])
+  ) as unknown as OpenIDAuthHandlers
+}
 
 export type FastifyOpenIDAuthPluginOptions = OpenIDHandlersOptions & {
   decorator: string | symbol
-  config: Configuration
+  routes?: OpenIDRoutesOptions
+} & (
+    | { config: OpenIDConfiguration; discovery?: never; providers?: never }
+    | { discovery: OpenIDDiscoveryOptions; config?: never; providers?: never }
+    | {
+        providers: OpenIDProviders
+        provider?: OpenIDProviderResolver
+        config?: never
+        discovery?: never
+      }
+  )
+
+const resolvePathname = (uri: unknown): string | undefined =>
+  typeof uri === 'string' && URL.canParse(uri)
+    ? new URL(uri).pathname
+    : undefined
+
+const resolveRedirectPathname = (
+  configs: OpenIDConfiguration[]
+): string | undefined => {
+  const pathnames = new Set(
+    configs.map((config) => {
+      // Lazily discovered configurations are not available yet
+      if (typeof config === 'function') {
+        return undefined
+      }
+      const redirectUris = config.clientMetadata().redirect_uris
+      return Array.isArray(redirectUris) && redirectUris.length === 1
+        ? resolvePathname(redirectUris[0])
+        : undefined
+    })
+  )
+  return pathnames.size === 1 ? [...pathnames][0] : undefined
+}
+
+// Callback routes default to the paths of statically configured redirect URIs
+const resolveRouteDefaults = (
+  configs: OpenIDConfiguration[],
+  { login, logout }: OpenIDHandlersOptions
+): Partial<OpenIDRouteDefaults> => {
+  const loginParameters =
+    typeof login.parameters === 'function' ? undefined : login.parameters
+  const logoutParameters =
+    typeof logout.parameters === 'function' ? undefined : logout.parameters
+  return Object.fromEntries(
+    Object.entries({
+      callback:
+        resolvePathname(loginParameters?.redirect_uri) ??
+        resolveRedirectPathname(configs),
+      logoutCallback: resolvePathname(
+        logoutParameters?.post_logout_redirect_uri
+      )
+    }).filter(([, value]) => value !== undefined)
+  )
 }
 
 export const openIDAuthPlugin: FastifyPluginAsync<
   FastifyOpenIDAuthPluginOptions
 > = async (fastify, options) => {
-  const { decorator, config, ...rest } = options
+  const { decorator, discovery, providers, routes, ...rest } = options
   fastify.log.trace(
     `decorating \`fastify[${String(decorator)}]\` with OpenIDAuthHandlers`
   )
-  fastify.decorate(decorator, openIDHandlersFactory(config, rest))
+  const configs: OpenIDConfiguration[] =
+    providers !== undefined
+      ? Object.values(providers).map((provider) => provider.config)
+      : [
+          discovery !== undefined
+            ? openIDLazyDiscovery(discovery)
+            : (options.config as OpenIDConfiguration)
+        ]
+  const handlers =
+    providers !== undefined
+      ? openIDProvidersHandlersFactory(providers, rest)
+      : openIDHandlersFactory(configs[0], rest)
+  fastify.decorate(decorator, handlers)
+  if (routes !== undefined) {
+    fastify.log.trace('registering OpenID routes')
+    openIDRegisterRoutes(
+      fastify,
+      handlers,
+      routes,
+      resolveRouteDefaults(configs, rest)
+    )
+  }
 }
 
 export default fp(openIDAuthPlugin, {
@@ -0,0 +1,199 @@
+import createError from '@fastify/error'
+import type {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  RouteHandlerMethod
+} from 'fastify'
+import { decodeJwt } from 'jose'
+import type { TokenEndpointResponse } from 'openid-client'
+import { isAuthorizationCallback, resolveAuthorizationChecks } from './login.js'
+import {
+  type OpenIDAuthHandlers,
+  type OpenIDHandlersOptions,
+  openIDHandlersFactory
+} from './plugin.js'
+import type { OpenIDConfiguration } from './types.js'
+import { resolveConfiguration } from './utils.js'
+
+export const OpenIDProviderError = createError(
+  'FST_OPENID_PROVIDER',
+  'could not resolve OpenID provider: %s',
+  400
+)
+
+export type OpenIDProvider = {
+  config: OpenIDConfiguration
+} & Partial<OpenIDHandlersOptions>
+
+export type OpenIDProviders = Record<string, OpenIDProvider>
+
+export type OpenIDProviderResolver = (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => PromiseLike<string | undefined> | string | undefined
+
+export type OpenIDProvidersHandlersOptions = OpenIDHandlersOptions & {
+  provider?: OpenIDProviderResolver
+}
+
+export type OpenIDProvidersHandlersFactory = (
+  providers: OpenIDProviders,
+  options: OpenIDProvidersHandlersOptions
+) => OpenIDAuthHandlers
+
+// Selects the provider from a `provider` path parameter or query parameter
+export const defaultProviderResolver: OpenIDProviderResolver = (request) => {
+  const params = request.params as Record<string, string | undefined>
+  const query = request.query as Record<string, string | undefined>
+  return params?.provider ?? query?.provider
+}
+
+const decodeIssuer = (token: string | undefined): string | undefined => {
+  if (token === undefined) {
+    return undefined
+  }
+  try {
+    return decodeJwt(token).iss
+  } catch {
+    // Opaque tokens do not carry an issuer
+    return undefined
+  }
+}
+
+// Tokens are only decoded to pick a provider, the selected handlers verify them
+export const resolveTokensetIssuer = (
+  tokenset: Partial<TokenEndpointResponse>
+): string | undefined =>
+  decodeIssuer(tokenset.id_token) ?? decodeIssuer(tokenset.access_token)
+
+const mergeOptions = (
+  options: OpenIDHandlersOptions,
+  { config: _, ...overrides }: OpenIDProvider
+): OpenIDHandlersOptions => ({
+  login: { ...options.login, ...overrides.login },
+  verify: { ...options.verify, ...overrides.verify },
+  refresh: { ...options.refresh, ...overrides.refresh },
+  logout: { ...options.logout, ...overrides.logout },
+  frontchannelLogout:
+    options.frontchannelLogout !== undefined ||
+    overrides.frontchannelLogout !== undefined
+      ? {
+          ...(options.frontchannelLogout ?? {
+            read: options.logout.read,
+            write: options.logout.write
+          }),
+          ...overrides.frontchannelLogout
+        }
+      : undefined
+})
+
+type HandlersSelector = (
+  this: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply
+) => Promise<OpenIDAuthHandlers>
+
+const dispatch = (
+  name: keyof OpenIDAuthHandlers,
+  select: HandlersSelector
+): RouteHandlerMethod =>
+  async function openIDProviderHandler(request, reply) {
+    const handlers = await select.call(this, request, reply)
+    return await handlers[name].call(this, request, reply)
+  }
+
+export const openIDProvidersHandlersFactory: OpenIDProvidersHandlersFactory = (
+  providers,
+  { provider: resolveProvider = defaultProviderResolver, ...options }
+) => {
+  const byName = new Map<string, OpenIDAuthHandlers>()
+  const byConfig = new Map<OpenIDConfiguration, OpenIDAuthHandlers>()
+  for (const [name, provider] of Object.entries(providers)) {
+    const handlers = openIDHandlersFactory(
+      provider.config,
+      mergeOptions(options, provider)
+    )
+    byName.set(name, handlers)
+    byConfig.set(provider.config, handlers)
+  }
+
+  const fromIssuer = async (
+    request: FastifyRequest,
+    issuer: string | undefined
+  ) => {
+    if (issuer !== undefined) {
+      for (const [config, handlers] of byConfig) {
+        let providerIssuer: string
+        try {
+          // Lazily discovered configurations are resolved on first match
+          providerIssuer = (await resolveConfiguration(config)).serverMetadata()
+            .issuer
+        } catch (error) {
+          // An unavailable provider must not block routing to the others
+          request.log.warn(error, 'OpenID provider could not be resolved')
+          continue
+        }
+        if (providerIssuer === issuer) {
+          return handlers
+        }
+      }
+    }
+    throw new OpenIDProviderError(`issuer ${issuer}`)
+  }
+
+  // Requests without tokens are handled as by a single provider, reading an
+  // empty tokenset
+  const [anonymous] = byName.values()
+
+  const fromTokenset = (
+    read: OpenIDHandlersOptions['verify']['read']
+  ): HandlersSelector =>
+    async function (request, reply) {
+      const tokenset = await read.call(this, request, reply)
+      if (
+        anonymous !== undefined &&
+        tokenset.id_token === undefined &&
+        tokenset.access_token === undefined
+      ) {
+        return anonymous
+      }
+      return fromIssuer(request, resolveTokensetIssuer(tokenset))
+    }
+
+  const fromLogin: HandlersSelector = async (request, reply) => {
+    // Callbacks are routed to the issuer recorded by the login request
+    if (isAuthorizationCallback(request)) {
+      const requests = await options.login.session.get(request, reply)
+      return fromIssuer(
+        request,
+        resolveAuthorizationChecks(requests, request)?.issuer
+      )
+    }
+    const name = await resolveProvider(request, reply)
+    const handlers = name !== undefined ? byName.get(name) : undefined
+    if (handlers === undefined) {
+      throw new OpenIDProviderError(`provider ${name}`)
+    }
+    return handlers
+  }
+
+  return {
+    login: dispatch('login', fromLogin),
+    silentLogin: dispatch('silentLogin', fromLogin),
+    verify: dispatch('verify', fromTokenset(options.verify.read)),
+    refresh: dispatch('refresh', fromTokenset(options.refresh.read)),
+    logout: dispatch('logout', fromTokenset(options.logout.read)),
+    frontchannelLogout: dispatch(
+      'frontchannelLogout',
+      async function (request, reply) {
+        const { iss } = request.query as Record<string, string | undefined>
+        return iss !== undefined
+          ? fromIssuer(request, iss)
+          : fromTokenset(
+              (options.frontchannelLogout ?? options.logout).read
+            ).call(this, request, reply)
+      }
+    )
+  }
+}
@@ -1,16 +1,31 @@
-import { createError } from '@fastify/error'
-import type { RouteHandlerMethod } from 'fastify'
+import { createHash } from 'node:crypto'
+import { createError, type FastifyError } from '@fastify/error'
+import type {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  RouteHandlerMethod
+} from 'fastify'
+import { decodeJwt } from 'jose'
 import {
-  type Configuration,
   type DPoPOptions,
-  refreshTokenGrant
+  ResponseBodyError,
+  refreshTokenGrant,
+  type TokenEndpointResponse
 } from 'openid-client'
+import { type OpenIDDPoPOptions, resolveDPoPOptions } from './dpop.js'
+import type { OpenIDKeyValueStore } from './store.js'
 import type {
+  OpenIDConfiguration,
   OpenIDReadTokens,
   OpenIDWriteTokens,
   Resolvable
 } from './types.js'
-import { resolveParameters } from './utils.js'
+import {
+  resolveConfiguration,
+  resolveParameters,
+  stampExpiresAt
+} from './utils.js'
 import { type OpenIDVerifyOptions, openIDJWTVerify } from './verify.js'
 
 export const OpenIDRefreshTokenMissingError = createError(
@@ -19,6 +34,24 @@ export const OpenIDRefreshTokenMissingError = createError(
   400
 )
 
+export const OpenIDRefreshFailedError = createError(
+  'FST_OPENID_REFRESH_FAILED',
+  'token refresh failed: %s',
+  401
+)
+
+export type OpenIDRefreshFailedErrorResponse = FastifyError & {
+  error: string
+  error_description?: string
+}
+
+export type OpenIDRefreshFailureHandler = (
+  this: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  error: OpenIDRefreshFailedErrorResponse
+) => unknown
+
 export type RefreshTokenEndpointParameters = Record<string, string>
 
 export type RefreshTokenEndpoint = {
@@ -26,38 +59,174 @@ export type RefreshTokenEndpoint = {
   options?: DPoPOptions
 }
 
+export type OpenIDRefreshLockRelease = () => PromiseLike<void> | void
+
+export interface OpenIDRefreshLock {
+  // Resolves once the lock is held, locks expire after ttl seconds
+  acquire: (key: string, ttl: number) => PromiseLike<OpenIDRefreshLockRelease>
+}
+
+export interface OpenIDRefreshLockOptions {
+  lock: OpenIDRefreshLock
+  // Shares the refreshed tokens with instances waiting for the lock
+  cache: OpenIDKeyValueStore<Partial<TokenEndpointResponse>>
+  // Seconds locks are held and refreshed tokens are shared, defaults to 30
+  ttl?: number
+}
+
 export interface OpenIDRefreshHandlerOptions {
   tokenEndpoint?: RefreshTokenEndpoint
+  // Sends DPoP proofs with the key persisted by the login handler
+  dpop?: OpenIDDPoPOptions
   verify?: OpenIDVerifyOptions
+  // Seconds before expiry at which tokens are refreshed, defaults to 0
+  refreshAhead?: number
+  // Seconds the clock of the OP may be ahead, defaults to 0
+  clockTolerance?: number
+  // Falls back to the access_token exp claim, or expires_in counted from the
+  // id_token iat, when expires_at is missing
+  expiryFallback?: boolean
+  // Seconds refreshed tokens are reused for requests still carrying the old
+  // refresh token, defaults to 10
+  grace?: number
+  // Coalesces refreshes of the same refresh token across instances
+  lock?: OpenIDRefreshLockOptions
+  // Handles rejected refresh tokens (e.g. invalid_grant after revocation or
+  // reuse) instead of throwing, e.g. to clear the tokens and log in again
+  onRefreshFailure?: OpenIDRefreshFailureHandler
   read: OpenIDReadTokens
   write?: OpenIDWriteTokens
 }
 
 export type OpenIDRefreshHandlerFactory = (
-  config: Configuration,
+  config: OpenIDConfiguration,
   options: OpenIDRefreshHandlerOptions
 ) => RouteHandlerMethod
 
-const isTokenExpired = (expiresAt: number | undefined): boolean => {
+const decodeClaim = (
+  token: string | undefined,
+  claim: 'exp' | 'iat'
+): number | undefined => {
+  if (token === undefined) {
+    return undefined
+  }
+  try {
+    const value = decodeJwt(token)[claim]
+    return typeof value === 'number' ? value : undefined
+  } catch {
+    // Opaque tokens do not carry claims
+    return undefined
+  }
+}
+
+const resolveExpiresAt = (
+  tokenset: Partial<TokenEndpointResponse>,
+  fallback: boolean
+): number | undefined => {
+  // expires_at comes from the index signature and may be JsonValue,
+  // but we only care if it's a number
+  if (typeof tokenset.expires_at === 'number') {
+    return tokenset.expires_at
+  }
+  if (!fallback) {
+    return undefined
+  }
+  const exp = decodeClaim(tokenset.access_token, 'exp')
+  if (exp !== undefined) {
+    return exp
+  }
+  const iat = decodeClaim(tokenset.id_token, 'iat')
+  return iat !== undefined && typeof tokenset.expires_in === 'number'
+    ? iat + tokenset.expires_in
+    : undefined
+}
+
+const isTokenExpired = (
+  expiresAt: number | undefined,
+  margin: number
+): boolean => {
   if (expiresAt === undefined) {
     return true
   }
-  return Date.now() >= expiresAt * 1000
+  return Date.now() >= (expiresAt - margin) * 1000
+}
+
+// Refresh responses may omit tokens that were not reissued
+const mergeTokensets = (
+  oldTokens: Partial<TokenEndpointResponse>,
+  newTokens: Partial<TokenEndpointResponse>
+): Partial<TokenEndpointResponse> => ({
+  id_token: oldTokens.id_token,
+  refresh_token: oldTokens.refresh_token,
+  ...newTokens
+})
+
+// OAuth error responses of the token endpoint reject the refresh token
+const createRefreshFailedError = (
+  error: ResponseBodyError
+): OpenIDRefreshFailedErrorResponse =>
+  Object.assign(
+    new OpenIDRefreshFailedError(error.error_description ?? error.error, {
+      cause: error
+    }),
+    { error: error.error, error_description: error.error_description }
+  )
+
+// Waits for the lock, then reuses tokens refreshed by its previous holder
+const refreshWithLock = async (
+  key: string,
+  { lock, cache, ttl = 30 }: OpenIDRefreshLockOptions,
+  refresh: () => Promise<Partial<TokenEndpointResponse>>
+): Promise<Partial<TokenEndpointResponse>> => {
+  const release = await lock.acquire(key, ttl)
+  try {
+    const shared = await cache.get(key)
+    if (shared !== undefined) {
+      return shared
+    }
+    const tokenset = await refresh()
+    await cache.set(key, tokenset, ttl)
+    return tokenset
+  } finally {
+    await release()
+  }
 }
 
 export const openIDRefreshHandlerFactory: OpenIDRefreshHandlerFactory = (
-  config,
-  { tokenEndpoint, verify, read, write }
-) =>
-  async function openIDRefreshHandler(request, reply) {
+  configuration,
+  {
+    tokenEndpoint,
+    dpop,
+    verify,
+    refreshAhead = 0,
+    clockTolerance = 0,
+    expiryFallback = false,
+    grace = 10,
+    lock,
+    onRefreshFailure,
+    read,
+    write
+  }
+) => {
+  // Concurrent requests with the same refresh token share one grant, rotated
+  // refresh tokens would fail every grant but the first. Results are kept for
+  // the grace period so requests sent before the new tokens were stored reuse
+  // them
+  const pending = new Map<string, Promise<Partial<TokenEndpointResponse>>>()
+
+  return async function openIDRefreshHandler(request, reply) {
     const oldTokens = await read.call(this, request, reply)
-    // expires_at comes from the index signature and may be JsonValue,
-    // but we only care if it's a number
-    const expiresAt =
-      typeof oldTokens.expires_at === 'number'
-        ? oldTokens.expires_at
-        : undefined
-    if (isTokenExpired(expiresAt)) {
+    // Anonymous requests have nothing to refresh, verify decides about them
+    if (
+      oldTokens.access_token === undefined &&
+      oldTokens.id_token === undefined &&
+      oldTokens.refresh_token === undefined
+    ) {
+      request.log.trace('OpenID tokens missing, skipping refresh')
+      return
+    }
+    const expiresAt = resolveExpiresAt(oldTokens, expiryFallback)
+    if (isTokenExpired(expiresAt, refreshAhead + clockTolerance)) {
       request.log.trace(
         expiresAt === undefined
           ? 'OpenID token missing expires_at, refreshing'
@@ -67,17 +236,74 @@ export const openIDRefreshHandlerFactory: OpenIDRefreshHandlerFactory = (
       if (refreshToken === undefined) {
         throw new OpenIDRefreshTokenMissingError()
       }
-      const newTokenset = await refreshTokenGrant(
-        config,
-        refreshToken,
-        await resolveParameters(tokenEndpoint?.parameters, request, reply),
-        tokenEndpoint?.options
-      )
+      const config = await resolveConfiguration(configuration)
+      const refresh = async () => {
+        const tokenset = await refreshTokenGrant(
+          config,
+          refreshToken,
+          await resolveParameters(tokenEndpoint?.parameters, request, reply),
+          await resolveDPoPOptions(
+            config,
+            dpop,
+            request,
+            reply,
+            tokenEndpoint?.options
+          )
+        )
+        stampExpiresAt(tokenset)
+        return tokenset
+      }
+      const key = createHash('sha256').update(refreshToken).digest('base64url')
+      let refreshing = pending.get(key)
+      if (refreshing === undefined) {
+        refreshing = (
+          lock !== undefined ? refreshWithLock(key, lock, refresh) : refresh()
+        ).then(
+          (tokenset) => {
+            setTimeout(() => pending.delete(key), grace * 1000).unref()
+            return tokenset
+          },
+          (error) => {
+            pending.delete(key)
+            throw error
+          }
+        )
+        pending.set(key, refreshing)
+      } else {
+        request.log.trace('OpenID token refresh shared, waiting')
+      }
+      let newTokenset: Partial<TokenEndpointResponse>
+      try {
+        newTokenset = await refreshing
+      } catch (error) {
+        // Other token endpoint errors (e.g. invalid_client or a temporarily
+        // unavailable OP) do not mean the refresh token is dead
+        if (
+          !(error instanceof ResponseBodyError) ||
+          error.error !== 'invalid_grant'
+        ) {
+          throw error
+        }
+        const refreshError = createRefreshFailedError(error)
+        if (onRefreshFailure === undefined) {
+          throw refreshError
+        }
+        request.log.trace(`OpenID token refresh failed ${refreshError.error}`)
+        return await onRefreshFailure.call(this, request, reply, refreshError)
+      }
+      // Only reissued tokens are verified
       const verified =
         verify !== undefined
-          ? await openIDJWTVerify(newTokenset, verify)
+          ? await openIDJWTVerify(newTokenset, verify, config)
           : undefined
       request.log.trace('OpenID tokens refreshed')
-      return await write?.call(this, request, reply, newTokenset, verified)
+      return await write?.call(
+        this,
+        request,
+        reply,
+        mergeTokensets(oldTokens, newTokenset),
+        verified
+      )
     }
   }
+}
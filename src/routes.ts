@@ -0,0 +1,170 @@
+import type {
+  FastifyInstance,
+  HTTPMethods,
+  preHandlerHookHandler,
+  RouteHandlerMethod,
+  RouteOptions
+} from 'fastify'
+import { openIDRegisterFormBodyParser } from './login.js'
+import type { OpenIDAuthHandlers } from './plugin.js'
+import { matchesPath } from './utils.js'
+
+export type OpenIDRouteOptions = Partial<RouteOptions>
+
+export interface OpenIDProtectOptions {
+  prefix?: string | string[]
+  filter?: (routeOptions: RouteOptions) => boolean
+  refresh?: boolean
+}
+
+export interface OpenIDRoutesOptions {
+  prefix?: string
+  login?: OpenIDRouteOptions | false
+  callback?: OpenIDRouteOptions | false
+  // Only registered when given
+  silentLogin?: OpenIDRouteOptions | false
+  logout?: OpenIDRouteOptions | false
+  logoutCallback?: OpenIDRouteOptions | false
+  frontchannelLogout?: OpenIDRouteOptions | false
+  protect?: OpenIDProtectOptions | false
+}
+
+export type OpenIDRouteDefaults = Record<
+  Exclude<keyof OpenIDRoutesOptions, 'prefix' | 'protect'>,
+  string
+>
+
+export type OpenIDRegisterRoutes = (
+  fastify: FastifyInstance,
+  handlers: OpenIDAuthHandlers,
+  options: OpenIDRoutesOptions,
+  defaults?: Partial<OpenIDRouteDefaults>
+) => void
+
+const DEFAULT_URLS: OpenIDRouteDefaults = {
+  login: '/login',
+  callback: '/login/callback',
+  silentLogin: '/login/silent',
+  logout: '/logout',
+  logoutCallback: '/logout/callback',
+  frontchannelLogout: '/logout/frontchannel'
+}
+
+// Callbacks are POSTed with response_mode=form_post
+const CALLBACK_METHODS: HTTPMethods[] = ['GET', 'POST']
+
+const toArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value]
+
+const registerRoute = (
+  fastify: FastifyInstance,
+  prefix: string,
+  url: string,
+  handler: RouteHandlerMethod,
+  options: OpenIDRouteOptions | false | undefined,
+  method: HTTPMethods | HTTPMethods[] = 'GET'
+) => {
+  if (options === false) {
+    return
+  }
+  const { handler: routeHandler, preHandler, ...rest } = { ...options }
+  fastify.route({
+    method,
+    ...rest,
+    url: rest.url !== undefined ? `${prefix}${rest.url}` : url,
+    // When a route handler is provided the auth handler runs as a preHandler
+    ...(routeHandler !== undefined
+      ? {
+          preHandler: [
+            handler as preHandlerHookHandler,
+            ...toArray(preHandler)
+          ],
+          handler: routeHandler
+        }
+      : { preHandler, handler })
+  })
+}
+
+const matchesPrefix = (url: string, prefixes: string[]): boolean =>
+  prefixes.length === 0 || prefixes.some((prefix) => matchesPath(url, prefix))
+
+export const openIDRegisterRoutes: OpenIDRegisterRoutes = (
+  fastify,
+  handlers,
+  { prefix = '', protect, ...routes },
+  defaults
+) => {
+  // Defaults derived from absolute redirect URIs are not prefixed
+  const urls: OpenIDRouteDefaults = {
+    ...(Object.fromEntries(
+      Object.entries(DEFAULT_URLS).map(([key, url]) => [key, `${prefix}${url}`])
+    ) as OpenIDRouteDefaults),
+    ...defaults
+  }
+  // The login and logout handlers detect their callbacks, so a callback
+  // sharing the initiating URL is served by the same route
+  const sharedCallback = urls.callback === urls.login
+  if (routes.callback !== false || (sharedCallback && routes.login !== false)) {
+    openIDRegisterFormBodyParser(fastify)
+  }
+  registerRoute(
+    fastify,
+    prefix,
+    urls.login,
+    handlers.login,
+    routes.login,
+    sharedCallback ? CALLBACK_METHODS : 'GET'
+  )
+  registerRoute(
+    fastify,
+    prefix,
+    urls.callback,
+    handlers.login,
+    sharedCallback ? false : routes.callback,
+    CALLBACK_METHODS
+  )
+  registerRoute(
+    fastify,
+    prefix,
+    urls.silentLogin,
+    handlers.silentLogin,
+    routes.silentLogin ?? false
+  )
+  registerRoute(fastify, prefix, urls.logout, handlers.logout, routes.logout)
+  registerRoute(
+    fastify,
+    prefix,
+    urls.logoutCallback,
+    handlers.logout,
+    urls.logoutCallback === urls.logout ? false : routes.logoutCallback
+  )
+  registerRoute(
+    fastify,
+    prefix,
+    urls.frontchannelLogout,
+    handlers.frontchannelLogout,
+    routes.frontchannelLogout
+  )
+
+  if (protect === undefined || protect === false) {
+    return
+  }
+
+  // Only routes registered after this hook are protected, which excludes the
+  // routes registered above
+  const prefixes = toArray(protect.prefix)
+  const hooks = [
+    ...(protect.refresh !== false ? [handlers.refresh] : []),
+    handlers.verify
+  ] as preHandlerHookHandler[]
+  fastify.addHook('onRoute', (routeOptions) => {
+    if (
+      !matchesPrefix(routeOptions.url, prefixes) ||
+      (protect.filter !== undefined && !protect.filter(routeOptions))
+    ) {
+      return
+    }
+    fastify.log.trace(`protecting route ${routeOptions.url}`)
+    routeOptions.preHandler = [...hooks, ...toArray(routeOptions.preHandler)]
+  })
+}
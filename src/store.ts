@@ -0,0 +1,416 @@
+import { randomBytes } from 'node:crypto'
+import type { CookieSerializeOptions } from '@fastify/cookie'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import { EncryptJWT, jwtDecrypt } from 'jose'
+import type { TokenEndpointResponse } from 'openid-client'
+import type { OpenIDDPoPKey } from './dpop.js'
+import type { AuthorizationRequests } from './login.js'
+import type {
+  OpenIDReadTokens,
+  OpenIDSession,
+  OpenIDWriteTokens
+} from './types.js'
+
+export type OpenIDStoreRecord = {
+  tokenset?: Partial<TokenEndpointResponse>
+  checks?: AuthorizationRequests
+  dpop?: OpenIDDPoPKey
+  logout?: string
+}
+
+export interface OpenIDTokenStore {
+  get: (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) =>
+    | PromiseLike<OpenIDStoreRecord | undefined>
+    | OpenIDStoreRecord
+    | undefined
+  set: (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    record: OpenIDStoreRecord | undefined
+  ) => PromiseLike<void> | void
+}
+
+export interface OpenIDKeyValueStore<T = OpenIDStoreRecord> {
+  get: (key: string) => PromiseLike<T | undefined> | T | undefined
+  set: (key: string, value: T, ttl?: number) => PromiseLike<void> | void
+  delete: (key: string) => PromiseLike<void> | void
+}
+
+export type OpenIDStoreCookie = {
+  name?: string
+  options?: CookieSerializeOptions
+}
+
+const DEFAULT_COOKIE_OPTIONS: CookieSerializeOptions = {
+  path: '/',
+  httpOnly: true,
+  secure: true,
+  sameSite: 'lax'
+}
+
+const resolveCookie = (
+  cookie: OpenIDStoreCookie | undefined,
+  name: string
+): Required<OpenIDStoreCookie> => ({
+  name: cookie?.name ?? name,
+  options: { ...DEFAULT_COOKIE_OPTIONS, ...cookie?.options }
+})
+
+const readCookie = (
+  request: FastifyRequest,
+  { name, options }: Required<OpenIDStoreCookie>
+): string | undefined => {
+  const value = request.cookies[name]
+  if (value === undefined || options.signed !== true) {
+    return value
+  }
+  const unsigned = request.unsignCookie(value)
+  return unsigned.valid ? (unsigned.value ?? undefined) : undefined
+}
+
+// Keeps the latest record per request so reads after a write see the change
+const requestCache = (
+  load: (request: FastifyRequest) => Promise<OpenIDStoreRecord | undefined>
+) => {
+  const records = new WeakMap<FastifyRequest, OpenIDStoreRecord | undefined>()
+  return {
+    async get(request: FastifyRequest) {
+      if (!records.has(request)) {
+        records.set(request, await load(request))
+      }
+      return records.get(request)
+    },
+    set(request: FastifyRequest, record: OpenIDStoreRecord | undefined) {
+      records.set(request, record)
+    }
+  }
+}
+
+export interface OpenIDMemoryStoreOptions {
+  max?: number
+  ttl?: number
+}
+
+export const openIDMemoryStore = <T = OpenIDStoreRecord>({
+  max = 1000,
+  ttl
+}: OpenIDMemoryStoreOptions = {}): OpenIDKeyValueStore<T> => {
+  const entries = new Map<string, { value: T; expiresAt?: number }>()
+  return {
+    get(key) {
+      const entry = entries.get(key)
+      if (entry === undefined) {
+        return undefined
+      }
+      entries.delete(key)
+      if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+        return undefined
+      }
+      // Re-insert to mark the entry as most recently used
+      entries.set(key, entry)
+      return entry.value
+    },
+    set(key, value, entryTtl = ttl) {
+      entries.delete(key)
+      entries.set(key, {
+        value,
+        expiresAt:
+          entryTtl !== undefined ? Date.now() + entryTtl * 1000 : undefined
+      })
+      for (const oldest of entries.keys()) {
+        if (entries.size <= max) {
+          break
+        }
+        entries.delete(oldest)
+      }
+    },
+    delete(key) {
+      entries.delete(key)
+    }
+  }
+}
+
+export interface OpenIDKeyValueTokenStoreOptions {
+  store: OpenIDKeyValueStore
+  cookie?: OpenIDStoreCookie
+  ttl?: number
+}
+
+export const openIDKeyValueTokenStore = ({
+  store,
+  cookie,
+  ttl
+}: OpenIDKeyValueTokenStoreOptions): OpenIDTokenStore => {
+  const sessionCookie = resolveCookie(cookie, 'sid')
+  // Tracks session ids issued during the request, the cookie is only updated
+  // on the reply
+  const requestIds = new WeakMap<FastifyRequest, string | undefined>()
+  const readId = (request: FastifyRequest) =>
+    requestIds.has(request)
+      ? requestIds.get(request)
+      : readCookie(request, sessionCookie)
+  const cache = requestCache(async (request) => {
+    const id = readId(request)
+    return id !== undefined ? await store.get(id) : undefined
+  })
+  return {
+    get: cache.get,
+    async set(request, reply, record) {
+      const previous = await cache.get(request)
+      cache.set(request, record)
+      const id = readId(request)
+      if (record === undefined) {
+        if (id !== undefined) {
+          await store.delete(id)
+        }
+        requestIds.set(request, undefined)
+        reply.clearCookie(sessionCookie.name, sessionCookie.options)
+        return
+      }
+      // Issue a new opaque session id for unknown sessions and on login to
+      // prevent session fixation
+      if (
+        id === undefined ||
+        previous === undefined ||
+        (previous.tokenset === undefined && record.tokenset !== undefined)
+      ) {
+        if (id !== undefined) {
+          await store.delete(id)
+        }
+        const newId = randomBytes(32).toString('base64url')
+        await store.set(newId, record, ttl)
+        requestIds.set(request, newId)
+        reply.setCookie(sessionCookie.name, newId, sessionCookie.options)
+        return
+      }
+      await store.set(id, record, ttl)
+    }
+  }
+}
+
+export const openIDMemoryTokenStore = ({
+  max,
+  ttl,
+  cookie
+}: OpenIDMemoryStoreOptions & {
+  cookie?: OpenIDStoreCookie
+} = {}): OpenIDTokenStore =>
+  openIDKeyValueTokenStore({
+    store: openIDMemoryStore({ max, ttl }),
+    cookie,
+    ttl
+  })
+
+export interface OpenIDCookieTokenStoreOptions {
+  // 32 byte key used for A256GCM direct encryption
+  secret: Uint8Array
+  cookie?: OpenIDStoreCookie
+  ttl?: number
+  // Longer values are split across numbered cookies, browsers drop cookies
+  // over ~4096 bytes including name and attributes, defaults to 3800
+  chunkSize?: number
+}
+
+const isChunkName = (name: string, cookieName: string) =>
+  name.startsWith(`${cookieName}.`) &&
+  /^\d+$/.test(name.slice(cookieName.length + 1))
+
+// Values are either kept in the named cookie or in name.0, name.1, ...
+const readChunkedCookie = (
+  request: FastifyRequest,
+  cookie: Required<OpenIDStoreCookie>
+): string | undefined => {
+  const value = readCookie(request, cookie)
+  if (value !== undefined) {
+    return value
+  }
+  const chunks: string[] = []
+  for (let index = 0; ; index++) {
+    const name = `${cookie.name}.${index}`
+    if (request.cookies[name] === undefined) {
+      return chunks.length > 0 ? chunks.join('') : undefined
+    }
+    const chunk = readCookie(request, { ...cookie, name })
+    if (chunk === undefined) {
+      // A tampered chunk invalidates the whole value
+      return undefined
+    }
+    chunks.push(chunk)
+  }
+}
+
+const splitChunks = (value: string, chunkSize: number): string[] =>
+  Array.from({ length: Math.ceil(value.length / chunkSize) }, (_, index) =>
+    value.slice(index * chunkSize, (index + 1) * chunkSize)
+  )
+
+export const openIDCookieTokenStore = ({
+  secret,
+  cookie,
+  ttl,
+  chunkSize = 3800
+}: OpenIDCookieTokenStoreOptions): OpenIDTokenStore => {
+  const tokensCookie = resolveCookie(cookie, 'tokens')
+  // Cookie names the browser holds after the reply, so stale chunks are
+  // cleared when a value shrinks
+  const requestNames = new WeakMap<FastifyRequest, Set<string>>()
+  const readNames = (request: FastifyRequest) =>
+    requestNames.get(request) ??
+    new Set(
+      Object.keys(request.cookies).filter(
+        (name) =>
+          name === tokensCookie.name || isChunkName(name, tokensCookie.name)
+      )
+    )
+  const cache = requestCache(async (request) => {
+    const jwt = readChunkedCookie(request, tokensCookie)
+    if (jwt === undefined) {
+      return undefined
+    }
+    try {
+      const {
+        payload: { tokenset, checks, dpop, logout }
+      } = await jwtDecrypt<OpenIDStoreRecord>(jwt, secret)
+      return { tokenset, checks, dpop, logout }
+    } catch (error) {
+      request.log.debug(error, 'OpenID token cookie could not be decrypted')
+      return undefined
+    }
+  })
+  return {
+    get: cache.get,
+    async set(request, reply, record) {
+      cache.set(request, record)
+      const stale = new Set(readNames(request))
+      if (record === undefined) {
+        stale.add(tokensCookie.name)
+      }
+      const values = new Map<string, string>()
+      if (record !== undefined) {
+        const encrypt = new EncryptJWT(record)
+          .setProtectedHeader({ alg: 'dir', enc: 'A256GCM' })
+          .setIssuedAt()
+        if (ttl !== undefined) {
+          encrypt.setExpirationTime(`${ttl}s`)
+        }
+        const jwt = await encrypt.encrypt(secret)
+        if (jwt.length <= chunkSize) {
+          values.set(tokensCookie.name, jwt)
+        } else {
+          splitChunks(jwt, chunkSize).forEach((chunk, index) => {
+            values.set(`${tokensCookie.name}.${index}`, chunk)
+          })
+          request.log.debug(
+            `OpenID token cookie split into ${values.size} chunks`
+          )
+        }
+      }
+      for (const name of stale) {
+        if (!values.has(name)) {
+          reply.clearCookie(name, tokensCookie.options)
+        }
+      }
+      for (const [name, value] of values) {
+        reply.setCookie(name, value, tokensCookie.options)
+      }
+      requestNames.set(request, new Set(values.keys()))
+    }
+  }
+}
+
+export type OpenIDStoreOptions = {
+  read: OpenIDReadTokens
+  write: OpenIDWriteTokens
+  // Drops the tokens and their DPoP key whatever tokenset it is called with,
+  // for logout handlers that pass the current tokens to write
+  clear: OpenIDWriteTokens
+  session: OpenIDSession<AuthorizationRequests>
+  dpop: OpenIDSession<OpenIDDPoPKey>
+  logout: OpenIDSession<string>
+}
+
+export type OpenIDStoreOptionsFactory = (
+  store: OpenIDTokenStore
+) => OpenIDStoreOptions
+
+const isEmpty = (value: object | undefined): boolean =>
+  value === undefined || Object.keys(value).length === 0
+
+const updateRecord = async (
+  store: OpenIDTokenStore,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  update: OpenIDStoreRecord
+) => {
+  const { tokenset, checks, dpop, logout } = {
+    ...(await store.get(request, reply)),
+    ...update
+  }
+  const record: OpenIDStoreRecord = {}
+  if (!isEmpty(tokenset)) {
+    record.tokenset = tokenset
+  }
+  if (!isEmpty(checks)) {
+    record.checks = checks
+  }
+  if (!isEmpty(dpop)) {
+    record.dpop = dpop
+  }
+  if (logout !== undefined) {
+    record.logout = logout
+  }
+  await store.set(request, reply, isEmpty(record) ? undefined : record)
+}
+
+export const openIDStoreOptionsFactory: OpenIDStoreOptionsFactory = (
+  store
+) => ({
+  async read(request, reply) {
+    return (await store.get(request, reply))?.tokenset ?? {}
+  },
+  async write(request, reply, tokenset) {
+    const clearing = isEmpty(tokenset)
+    request.log.trace(`${clearing ? 'Clearing' : 'Storing'} OpenID tokens`)
+    // The DPoP key is only useful for the tokens bound to it
+    await updateRecord(
+      store,
+      request,
+      reply,
+      clearing ? { tokenset: undefined, dpop: undefined } : { tokenset }
+    )
+  },
+  async clear(request, reply) {
+    request.log.trace('Clearing OpenID tokens')
+    await updateRecord(store, request, reply, {
+      tokenset: undefined,
+      dpop: undefined
+    })
+  },
+  session: {
+    async get(request, reply) {
+      return (await store.get(request, reply))?.checks
+    },
+    async set(request, reply, checks) {
+      await updateRecord(store, request, reply, { checks })
+    }
+  },
+  dpop: {
+    async get(request, reply) {
+      return (await store.get(request, reply))?.dpop
+    },
+    async set(request, reply, dpop) {
+      await updateRecord(store, request, reply, { dpop })
+    }
+  },
+  logout: {
+    async get(request, reply) {
+      return (await store.get(request, reply))?.logout
+    },
+    async set(request, reply, logout) {
+      await updateRecord(store, request, reply, { logout })
+    }
+  }
+})
@@ -1,6 +1,10 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
 import type { JWTVerifyResult } from 'jose'
-import type { TokenEndpointResponse } from 'openid-client'
+import type {
+  Configuration,
+  IntrospectionResponse,
+  TokenEndpointResponse
+} from 'openid-client'
 
 export type ResolvableFunction<T> = (
   request: FastifyRequest,
@@ -9,10 +13,20 @@ export type ResolvableFunction<T> = (
 
 export type Resolvable<T> = T | ResolvableFunction<T>
 
+export type OpenIDConfigurationResolver = (() => Promise<Configuration>) & {
+  invalidate?: () => void
+  rediscover?: (error: unknown) => boolean
+}
+
+export type OpenIDConfiguration = Configuration | OpenIDConfigurationResolver
+
 export type OpenIDTokens = 'id_token' | 'access_token' | 'refresh_token'
 
 export type OpenIDJWTVerified = {
   [key in OpenIDTokens]?: JWTVerifyResult
+} & {
+  // Present when the access_token was verified by introspection
+  introspection?: IntrospectionResponse
 }
 
 export type OpenIDReadTokens = (
@@ -34,13 +48,13 @@ export type OpenIDWriteTokens = (
 export type OpenIDSessionGet<T> = (
   request: FastifyRequest,
   reply: FastifyReply
-) => T | undefined
+) => PromiseLike<T | undefined> | T | undefined
 
 export type OpenIDSessionSet<T> = (
   request: FastifyRequest,
   reply: FastifyReply,
   value: T | undefined
-) => void
+) => PromiseLike<void> | void
 
 export type OpenIDSession<T> = {
   get: OpenIDSessionGet<T>
@@ -1,4 +1,13 @@
 import type { FastifyReply, FastifyRequest } from 'fastify'
+import {
+  errors,
+  type JWTVerifyOptions,
+  type JWTVerifyResult,
+  jwtVerify
+} from 'jose'
+import type { Configuration, TokenEndpointResponse } from 'openid-client'
+import type { OpenIDConfiguration } from './types.js'
+import type { OpenIDVerifyKey } from './verify.js'
 
 export type ParametersFunction<T extends Record<string, string>> = (
   request: FastifyRequest,
@@ -14,3 +23,77 @@ export async function resolveParameters<T extends Record<string, string>>(
     ? parameters(request, reply)
     : parameters
 }
+
+export function resolveFormBody(
+  body: unknown
+): Record<string, string> | undefined {
+  if (typeof body === 'string') {
+    return Object.fromEntries(new URLSearchParams(body))
+  }
+  if (body instanceof URLSearchParams) {
+    return Object.fromEntries(body)
+  }
+  if (typeof body === 'object' && body !== null) {
+    return body as Record<string, string>
+  }
+  return undefined
+}
+
+export async function resolveConfiguration(
+  config: OpenIDConfiguration
+): Promise<Configuration> {
+  return typeof config === 'function' ? config() : config
+}
+
+// Scopes from the RFC 9068 `scope` claim or the `scp` claim some OPs use
+export function resolveScopes(claims: object): string[] {
+  const { scope, scp } = claims as { scope?: unknown; scp?: unknown }
+  if (typeof scope === 'string') {
+    return scope.split(' ')
+  }
+  if (Array.isArray(scp)) {
+    return scp.filter((value): value is string => typeof value === 'string')
+  }
+  return typeof scp === 'string' ? scp.split(' ') : []
+}
+
+// Matches whole path segments, so /api matches /api/orders but not /apidocs
+export function matchesPath(pathname: string, prefix: string): boolean {
+  return (
+    pathname === prefix ||
+    pathname.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`)
+  )
+}
+
+// Records when expires_in elapses, as read handlers only see stored tokens
+export function stampExpiresAt(tokenset: Partial<TokenEndpointResponse>): void {
+  if (
+    typeof tokenset.expires_in === 'number' &&
+    typeof tokenset.expires_at !== 'number'
+  ) {
+    // The token endpoint response keeps its helper methods
+    Object.assign(tokenset, {
+      expires_at: Math.floor(Date.now() / 1000) + tokenset.expires_in
+    })
+  }
+}
+
+export async function verifyJWT(
+  jwt: string,
+  key: OpenIDVerifyKey,
+  options: JWTVerifyOptions | undefined
+): Promise<JWTVerifyResult> {
+  try {
+    // TypeScript requires separate calls for function vs static key overloads
+    return typeof key === 'function'
+      ? await jwtVerify(jwt, key, options)
+      : await jwtVerify(jwt, key, options)
+  } catch (error) {
+    // jose rejects keys that do not fit the alg header of the token (e.g. an
+    // HS256 token checked against an RSA key) with a TypeError
+    if (error instanceof TypeError) {
+      throw new errors.JOSEAlgNotAllowed(error.message, { cause: error })
+    }
+    throw error
+  }
+}
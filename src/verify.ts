@@ -1,44 +1,213 @@
-import type { RouteHandlerMethod } from 'fastify'
+import { createHash } from 'node:crypto'
+import createError from '@fastify/error'
+import type {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  RouteHandlerMethod
+} from 'fastify'
 import {
   type CryptoKey,
+  createRemoteJWKSet,
   type JWK,
+  type JWTPayload,
   type JWTVerifyGetKey,
   type JWTVerifyOptions,
-  jwtVerify,
   type KeyObject
 } from 'jose'
-import type { TokenEndpointResponse } from 'openid-client'
+import {
+  type Configuration,
+  type IntrospectionResponse,
+  type TokenEndpointResponse,
+  tokenIntrospection
+} from 'openid-client'
+import {
+  DPOP_ALGORITHMS,
+  type OpenIDDPoPProofOptions,
+  openIDDPoPVerifyProof
+} from './dpop.js'
+import { type OpenIDKeyValueStore, openIDMemoryStore } from './store.js'
 import type {
+  OpenIDConfiguration,
   OpenIDJWTVerified,
   OpenIDReadTokens,
   OpenIDTokens,
   OpenIDWriteTokens
 } from './types.js'
+import {
+  resolveConfiguration,
+  resolveFormBody,
+  resolveScopes,
+  verifyJWT
+} from './utils.js'
+
+export const OpenIDVerifyKeyError = createError(
+  'FST_OPENID_VERIFY_KEY',
+  'could not resolve verification key: %s',
+  500
+)
+
+export const OpenIDTokenInactiveError = createError(
+  'FST_OPENID_TOKEN_INACTIVE',
+  'token is not active',
+  401
+)
+
+export interface OpenIDIntrospectionOptions {
+  parameters?: Record<string, string>
+  // Active responses are cached by token hash, pass false to disable
+  cache?: OpenIDKeyValueStore<IntrospectionResponse> | false
+  // Seconds to cache a response, bounded by the token exp
+  ttl?: number
+}
+
+export type OpenIDVerifyKey =
+  | JWTVerifyGetKey
+  | CryptoKey
+  | KeyObject
+  | JWK
+  | Uint8Array
 
 export interface OpenIDVerifyOptions {
   options?: JWTVerifyOptions
-  key: JWTVerifyGetKey | CryptoKey | KeyObject | JWK | Uint8Array
+  // Defaults to the issuer `jwks_uri` when a configuration is available
+  key?: OpenIDVerifyKey
   tokens: OpenIDTokens[]
+  // Introspects the access_token (RFC 7662) instead of verifying it locally
+  introspection?: OpenIDIntrospectionOptions
+}
+
+// Remote key sets are cached per configuration so keys are fetched once and
+// refetched by jose when an unknown `kid` shows up after rotation
+const remoteJWKSets = new WeakMap<Configuration, JWTVerifyGetKey>()
+
+export const openIDRemoteJWKSet = (config: Configuration): JWTVerifyGetKey => {
+  let jwks = remoteJWKSets.get(config)
+  if (jwks === undefined) {
+    const { jwks_uri } = config.serverMetadata()
+    if (jwks_uri === undefined) {
+      throw new OpenIDVerifyKeyError('issuer metadata has no jwks_uri')
+    }
+    jwks = createRemoteJWKSet(new URL(jwks_uri))
+    remoteJWKSets.set(config, jwks)
+  }
+  return jwks
+}
+
+// Access tokens are audienced to resource servers, so only ID tokens (and
+// logout tokens) are expected to carry the client_id as audience
+export const openIDJWTVerifyOptions = (
+  config: Configuration,
+  token: OpenIDTokens | 'logout_token' = 'id_token'
+): JWTVerifyOptions => ({
+  issuer: config.serverMetadata().issuer,
+  ...(token === 'id_token' || token === 'logout_token'
+    ? { audience: config.clientMetadata().client_id }
+    : {})
+})
+
+export const resolveVerifyKey = (
+  key: OpenIDVerifyKey | undefined,
+  config: Configuration | undefined
+): OpenIDVerifyKey => {
+  if (key !== undefined) {
+    return key
+  }
+  if (config === undefined) {
+    throw new OpenIDVerifyKeyError('no key or configuration')
+  }
+  return openIDRemoteJWKSet(config)
+}
+
+// Default caches are created once per introspection options
+const introspectionCaches = new WeakMap<
+  OpenIDIntrospectionOptions,
+  OpenIDKeyValueStore<IntrospectionResponse>
+>()
+
+const resolveIntrospectionCache = (
+  options: OpenIDIntrospectionOptions
+): OpenIDKeyValueStore<IntrospectionResponse> | undefined => {
+  if (options.cache !== undefined) {
+    return options.cache === false ? undefined : options.cache
+  }
+  let cache = introspectionCaches.get(options)
+  if (cache === undefined) {
+    cache = openIDMemoryStore<IntrospectionResponse>()
+    introspectionCaches.set(options, cache)
+  }
+  return cache
+}
+
+export type OpenIDIntrospect = (
+  token: string,
+  options: OpenIDIntrospectionOptions,
+  config: Configuration
+) => Promise<IntrospectionResponse>
+
+export const openIDIntrospect: OpenIDIntrospect = async (
+  token,
+  options,
+  config
+) => {
+  const { parameters, ttl = 60 } = options
+  const cache = resolveIntrospectionCache(options)
+  const key = createHash('sha256').update(token).digest('base64url')
+  const cached = await cache?.get(key)
+  if (cached !== undefined) {
+    return cached
+  }
+  const introspection = await tokenIntrospection(config, token, {
+    token_type_hint: 'access_token',
+    ...parameters
+  })
+  if (!introspection.active) {
+    throw new OpenIDTokenInactiveError()
+  }
+  const expiresIn =
+    introspection.exp !== undefined
+      ? Math.min(ttl, introspection.exp - Math.floor(Date.now() / 1000))
+      : ttl
+  if (expiresIn > 0) {
+    await cache?.set(key, introspection, expiresIn)
+  }
+  return introspection
 }
 
 export type OpenIDJWTVerify = (
   tokenset: Partial<Pick<TokenEndpointResponse, OpenIDTokens>>,
-  options: OpenIDVerifyOptions
+  options: OpenIDVerifyOptions,
+  config?: Configuration
 ) => Promise<OpenIDJWTVerified>
 
 export const openIDJWTVerify: OpenIDJWTVerify = async (
   tokenset,
-  { key, options, tokens }
+  { key: verifyKey, options: verifyOptions, tokens, introspection },
+  config
 ) => {
   const verified: OpenIDJWTVerified = {}
   for (const token of tokens) {
     const jwt = tokenset[token]
-    if (jwt !== undefined) {
-      // TypeScript requires separate calls for function vs static key overloads
-      verified[token] =
-        typeof key === 'function'
-          ? await jwtVerify(jwt, key, options)
-          : await jwtVerify(jwt, key, options)
+    if (jwt === undefined) {
+      continue
+    }
+    if (introspection !== undefined && token === 'access_token') {
+      if (config === undefined) {
+        throw new OpenIDVerifyKeyError('no configuration to introspect with')
+      }
+      verified.introspection = await openIDIntrospect(
+        jwt,
+        introspection,
+        config
+      )
+    } else {
+      // Keys are only resolved for locally verified tokens
+      const key = resolveVerifyKey(verifyKey, config)
+      const options =
+        config !== undefined
+          ? { ...openIDJWTVerifyOptions(config, token), ...verifyOptions }
+          : verifyOptions
+      verified[token] = await verifyJWT(jwt, key, options)
     }
   }
   return verified
@@ -49,24 +218,320 @@ export interface OpenIDVerifyHandlerOptions extends OpenIDVerifyOptions {
   write?: OpenIDWriteTokens
 }
 
-export type OpenIDVerifyHandlerFactory = ({
-  options,
-  key,
-  tokens,
-  read,
-  write
-}: OpenIDVerifyHandlerOptions) => RouteHandlerMethod
-
-export const openIDVerifyHandlerFactory: OpenIDVerifyHandlerFactory = ({
-  read,
-  write,
-  ...verify
-}) =>
+export type OpenIDVerifyHandlerFactory = (
+  { options, key, tokens, read, write }: OpenIDVerifyHandlerOptions,
+  config?: OpenIDConfiguration
+) => RouteHandlerMethod
+
+export const openIDVerifyHandlerFactory: OpenIDVerifyHandlerFactory = (
+  { read, write, ...verify },
+  configuration
+) =>
   async function openIDVerifyHandler(request, reply) {
     const tokenset = await read.call(this, request, reply)
     const verified = tokenset
-      ? await openIDJWTVerify(tokenset, verify)
+      ? await openIDJWTVerify(
+          tokenset,
+          verify,
+          configuration !== undefined
+            ? await resolveConfiguration(configuration)
+            : undefined
+        )
       : undefined
     request.log.trace('OpenID tokens verified')
     return await write?.call(this, request, reply, tokenset, verified)
   }
+
+export const OpenIDBearerTokenMissingError = createError(
+  'FST_OPENID_BEARER_TOKEN_MISSING',
+  'missing bearer token',
+  401
+)
+
+export const OpenIDBearerInvalidRequestError = createError(
+  'FST_OPENID_BEARER_INVALID_REQUEST',
+  'invalid bearer token request: %s',
+  400
+)
+
+export const OpenIDBearerInvalidTokenError = createError(
+  'FST_OPENID_BEARER_INVALID_TOKEN',
+  'invalid bearer token: %s',
+  401
+)
+
+export const OpenIDBearerInsufficientScopeError = createError(
+  'FST_OPENID_BEARER_INSUFFICIENT_SCOPE',
+  'insufficient scope: %s',
+  403
+)
+
+export const OpenIDBearerAudienceError = createError(
+  'FST_OPENID_BEARER_AUDIENCE',
+  'bearer tokens require options.audience'
+)
+
+// RFC 6750 section 3.1 error codes
+const BEARER_ERROR_CODES: Record<string, string> = {
+  FST_OPENID_BEARER_INVALID_REQUEST: 'invalid_request',
+  FST_OPENID_BEARER_INVALID_TOKEN: 'invalid_token',
+  FST_OPENID_BEARER_INSUFFICIENT_SCOPE: 'insufficient_scope',
+  // RFC 9449 section 7.1
+  FST_OPENID_DPOP_PROOF: 'invalid_dpop_proof'
+}
+
+// Errors caused by the presented token, failures to fetch keys or to reach the
+// introspection endpoint are not the client's fault
+const INVALID_TOKEN_ERROR_CODES = new Set([
+  'ERR_JWT_INVALID',
+  'ERR_JWT_EXPIRED',
+  'ERR_JWT_CLAIM_VALIDATION_FAILED',
+  'ERR_JWS_INVALID',
+  'ERR_JWS_SIGNATURE_VERIFICATION_FAILED',
+  'ERR_JOSE_ALG_NOT_ALLOWED',
+  'ERR_JOSE_NOT_SUPPORTED',
+  // Unknown or ambiguous kid headers are chosen by the client
+  'ERR_JWKS_NO_MATCHING_KEY',
+  'ERR_JWKS_MULTIPLE_MATCHING_KEYS',
+  'FST_OPENID_TOKEN_INACTIVE'
+])
+
+export const isInvalidTokenError = (error: unknown): boolean =>
+  typeof error === 'object' &&
+  error !== null &&
+  INVALID_TOKEN_ERROR_CODES.has((error as { code?: string }).code ?? '')
+
+export type OpenIDBearerTokenLocation = 'header' | 'query' | 'body'
+
+export type OpenIDBearerClaims = JWTPayload | IntrospectionResponse
+
+export interface OpenIDBearerHandlerOptions
+  extends Omit<OpenIDVerifyOptions, 'tokens'> {
+  realm?: string
+  // Query and form body tokens (RFC 6750 section 2.2 and 2.3) are opt-in
+  locations?: OpenIDBearerTokenLocation[]
+  scope?: string[]
+  // Accepts DPoP-bound tokens with the DPoP authorization scheme
+  dpop?: OpenIDDPoPProofOptions
+  // Request property the verified claims are assigned to
+  decorator?: OpenIDBearerDecorator
+  write?: OpenIDWriteTokens
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Claims of the bearer token, see openIDRegisterBearerDecorator
+    user?: OpenIDBearerClaims | null
+  }
+}
+
+// Request properties declared for the claims, augment FastifyRequest to
+// assign them to another property
+export type OpenIDBearerDecorator = {
+  [K in keyof FastifyRequest]-?: FastifyRequest[K] extends
+    | OpenIDBearerClaims
+    | null
+    | undefined
+    ? OpenIDBearerClaims extends FastifyRequest[K]
+      ? K
+      : never
+    : never
+}[keyof FastifyRequest]
+
+// Declares the request property the bearer handler assigns the claims to
+export const openIDRegisterBearerDecorator = (
+  fastify: FastifyInstance,
+  decorator: OpenIDBearerDecorator = 'user'
+) => {
+  if (fastify.hasRequestDecorator(decorator)) {
+    return
+  }
+  fastify.decorateRequest(decorator, null)
+}
+
+export type OpenIDBearerHandlerFactory = (
+  options: OpenIDBearerHandlerOptions,
+  config?: OpenIDConfiguration
+) => RouteHandlerMethod
+
+type OpenIDBearerScheme = 'bearer' | 'dpop'
+
+const resolveScheme = (request: FastifyRequest): string | undefined =>
+  request.headers.authorization?.split(' ')[0].toLowerCase()
+
+const extractBearerToken = (
+  request: FastifyRequest,
+  locations: OpenIDBearerTokenLocation[],
+  schemes: OpenIDBearerScheme[]
+): { token: string; scheme: OpenIDBearerScheme } | undefined => {
+  const tokens: { token: string; scheme: OpenIDBearerScheme }[] = []
+  const { authorization } = request.headers
+  if (locations.includes('header') && authorization !== undefined) {
+    const [, token, ...rest] = authorization.split(' ')
+    const scheme = resolveScheme(request) as OpenIDBearerScheme
+    if (!schemes.includes(scheme)) {
+      // Other authentication schemes are not bearer tokens
+      return undefined
+    }
+    if (token === undefined || token === '' || rest.length > 0) {
+      throw new OpenIDBearerInvalidRequestError(
+        'malformed authorization header'
+      )
+    }
+    tokens.push({ token, scheme })
+  }
+  if (locations.includes('query')) {
+    const { access_token } = request.query as Record<string, unknown>
+    if (typeof access_token === 'string') {
+      tokens.push({ token: access_token, scheme: 'bearer' })
+    }
+  }
+  if (
+    locations.includes('body') &&
+    request.headers['content-type']?.startsWith(
+      'application/x-www-form-urlencoded'
+    )
+  ) {
+    const access_token = resolveFormBody(request.body)?.access_token
+    if (typeof access_token === 'string') {
+      tokens.push({ token: access_token, scheme: 'bearer' })
+    }
+  }
+  if (tokens.length > 1) {
+    throw new OpenIDBearerInvalidRequestError('more than one token')
+  }
+  return tokens[0]
+}
+
+// Introspection responses are not checked by jwtVerify, match them the same way
+const matchesAudience = (aud: unknown, audience: string | string[]) => {
+  const values = Array.isArray(aud) ? aud : [aud]
+  return (Array.isArray(audience) ? audience : [audience]).some((value) =>
+    values.includes(value)
+  )
+}
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`
+
+const bearerChallenge = (
+  request: FastifyRequest,
+  reply: FastifyReply,
+  realm: string | undefined,
+  error: unknown,
+  scope: string[] | undefined,
+  dpop: OpenIDDPoPProofOptions | undefined
+) => {
+  const { code, message } = error as { code?: string; message?: string }
+  const errorCode = BEARER_ERROR_CODES[code ?? '']
+  if (errorCode === undefined && code !== 'FST_OPENID_BEARER_TOKEN_MISSING') {
+    return
+  }
+  // DPoP requests are challenged with the DPoP scheme
+  const scheme =
+    dpop !== undefined &&
+    (resolveScheme(request) === 'dpop' || errorCode === 'invalid_dpop_proof')
+      ? 'DPoP'
+      : 'Bearer'
+  const params = Object.entries({
+    realm,
+    algs:
+      scheme === 'DPoP'
+        ? (dpop?.algorithms ?? DPOP_ALGORITHMS).join(' ')
+        : undefined,
+    error: errorCode,
+    error_description: errorCode !== undefined ? message : undefined,
+    scope:
+      errorCode === 'insufficient_scope' && scope !== undefined
+        ? scope.join(' ')
+        : undefined
+  }).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  reply.header(
+    'www-authenticate',
+    params.length > 0
+      ? `${scheme} ${params.map(([key, value]) => `${key}=${quote(value)}`).join(', ')}`
+      : scheme
+  )
+}
+
+export const openIDBearerHandlerFactory: OpenIDBearerHandlerFactory = (
+  {
+    realm,
+    locations = ['header'],
+    scope,
+    dpop,
+    decorator = 'user',
+    write,
+    ...verify
+  },
+  configuration
+) => {
+  // Access tokens the issuer minted for other resource servers are rejected
+  const audience = verify.options?.audience
+  if (audience === undefined) {
+    throw new OpenIDBearerAudienceError()
+  }
+  return async function openIDBearerHandler(request, reply) {
+    try {
+      const extracted = extractBearerToken(
+        request,
+        locations,
+        dpop !== undefined ? ['bearer', 'dpop'] : ['bearer']
+      )
+      if (extracted === undefined) {
+        throw new OpenIDBearerTokenMissingError()
+      }
+      const { token, scheme } = extracted
+      const config =
+        configuration !== undefined
+          ? await resolveConfiguration(configuration)
+          : undefined
+      const tokenset = { access_token: token }
+      const verified = await openIDJWTVerify(
+        tokenset,
+        { ...verify, tokens: ['access_token'] },
+        config
+      ).catch((error: Error) => {
+        if (!isInvalidTokenError(error)) {
+          throw error
+        }
+        throw new OpenIDBearerInvalidTokenError(error.message, {
+          cause: error
+        })
+      })
+      const claims = verified.introspection ?? verified.access_token?.payload
+      if (claims === undefined) {
+        throw new OpenIDBearerInvalidTokenError('no verified claims')
+      }
+      if (
+        verified.introspection !== undefined &&
+        !matchesAudience(verified.introspection.aud, audience)
+      ) {
+        throw new OpenIDBearerInvalidTokenError('unexpected "aud" claim value')
+      }
+      const jkt = (claims.cnf as { jkt?: string } | undefined)?.jkt
+      if (scheme === 'dpop') {
+        if (jkt === undefined) {
+          throw new OpenIDBearerInvalidTokenError('token is not DPoP-bound')
+        }
+        await openIDDPoPVerifyProof(request, token, jkt, dpop ?? {})
+      } else if (jkt !== undefined) {
+        throw new OpenIDBearerInvalidTokenError(
+          'DPoP-bound token used as bearer token'
+        )
+      }
+      if (scope !== undefined) {
+        const scopes = resolveScopes(claims)
+        const missing = scope.filter((value) => !scopes.includes(value))
+        if (missing.length > 0) {
+          throw new OpenIDBearerInsufficientScopeError(missing.join(' '))
+        }
+      }
+      request[decorator] = claims
+      request.log.trace('OpenID bearer token verified')
+      return await write?.call(this, request, reply, tokenset, verified)
+    } catch (error) {
+      bearerChallenge(request, reply, realm, error, scope, dpop)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import assert from 'node:assert'
+import { after, before, describe, it } from 'node:test'
+import { errors } from 'jose'
+import { allowInsecureRequests, type Configuration } from 'openid-client'
+import {
+  isRediscoverError,
+  type OpenIDDiscoveryOptions,
+  openIDLazyDiscovery,
+  openIDRediscoverOnError
+} from '../src/discovery.ts'
+import { createTestProvider, type TestProvider } from './fixtures/provider.ts'
+import { createTestFastify } from './helpers/fastify.ts'
+
+const PORT = 3007
+
+const discoveryOptions: OpenIDDiscoveryOptions = {
+  issuer: `http://localhost:${PORT}`,
+  clientId: 'test-client',
+  metadata: 'test-secret',
+  options: { execute: [allowInsecureRequests] },
+  retryDelay: 10
+}
+
+describe('openIDLazyDiscovery', () => {
+  it('should not discover before first use', async () => {
+    // Nothing listens on the port, creating the resolver must not fail
+    const config = openIDLazyDiscovery(discoveryOptions)
+    assert.strictEqual(typeof config, 'function')
+  })
+
+  it('should retry and reject when the issuer is unavailable', async () => {
+    const config = openIDLazyDiscovery({ ...discoveryOptions, retries: 2 })
+    await assert.rejects(() => config())
+  })
+
+  describe('with an available issuer', () => {
+    let provider: TestProvider
+
+    before(async () => {
+      provider = await createTestProvider({ port: PORT })
+    })
+
+    after(async () => {
+      await provider.stop()
+    })
+
+    it('should discover lazily and cache the configuration', async () => {
+      const config = openIDLazyDiscovery(discoveryOptions)
+      const first = await config()
+      assert.strictEqual(first.serverMetadata().issuer, provider.issuer)
+      assert.strictEqual(await config(), first)
+    })
+
+    it('should discover again after invalidate', async () => {
+      const config = openIDLazyDiscovery(discoveryOptions)
+      const first = await config()
+      config.invalidate?.()
+      const second = await config()
+      assert.notStrictEqual(second, first)
+      assert.strictEqual(await config(), second)
+    })
+
+    it('should discover again in the background after interval', async () => {
+      const config = openIDLazyDiscovery({ ...discoveryOptions, interval: 0 })
+      const first = await config()
+      // The previous configuration is served while discovery runs
+      assert.strictEqual(await config(), first)
+      let next: Configuration = first
+      for (let i = 0; i < 50 && next === first; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        next = await config()
+      }
+      assert.notStrictEqual(next, first)
+    })
+  })
+
+  it('should keep the previous configuration when discovery fails', async () => {
+    const config = openIDLazyDiscovery({
+      ...discoveryOptions,
+      issuer: `http://localhost:${PORT + 1}`
+    })
+    const provider = await createTestProvider({ port: PORT + 1 })
+    let first: Configuration
+    try {
+      first = await config()
+    } finally {
+      await provider.stop()
+    }
+    config.invalidate?.()
+    assert.strictEqual(await config(), first)
+  })
+})
+
+describe('openIDRediscoverOnError', () => {
+  it('should invalidate the configuration on key selection errors', async () => {
+    let invalidated = 0
+    const config = Object.assign(async () => ({}) as Configuration, {
+      invalidate: () => {
+        invalidated++
+      }
+    })
+    const fastify = await createTestFastify()
+    fastify.get(
+      '/jwks',
+      openIDRediscoverOnError(config, async () => {
+        throw new errors.JWKSNoMatchingKey()
+      })
+    )
+    fastify.get(
+      '/other',
+      openIDRediscoverOnError(config, async () => {
+        throw new Error('other')
+      })
+    )
+    await fastify.ready()
+    assert.strictEqual(
+      (await fastify.inject({ method: 'GET', url: '/jwks' })).statusCode,
+      500
+    )
+    assert.strictEqual(invalidated, 1)
+    await fastify.inject({ method: 'GET', url: '/other' })
+    assert.strictEqual(invalidated, 1)
+    await fastify.close()
+  })
+
+  it('should recognize metadata and JWKS errors', () => {
+    assert.strictEqual(isRediscoverError(new errors.JWKSNoMatchingKey()), true)
+    assert.strictEqual(
+      isRediscoverError({ code: 'OAUTH_INVALID_SERVER_METADATA' }),
+      true
+    )
+    assert.strictEqual(isRediscoverError(new Error('other')), false)
+  })
+})
@@ -0,0 +1,354 @@
+import assert from 'node:assert'
+import { createHash } from 'node:crypto'
+import { after, before, describe, it } from 'node:test'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import { calculateJwkThumbprint, importJWK, SignJWT } from 'jose'
+import type { Configuration } from 'openid-client'
+import {
+  calculateDPoPThumbprint,
+  generateDPoPKey,
+  type OpenIDDPoPKey,
+  openIDDPoPHandle
+} from '../src/dpop.ts'
+import { openIDLoginHandlerFactory } from '../src/login.ts'
+import { openIDRefreshHandlerFactory } from '../src/refresh.ts'
+import type { OpenIDSession } from '../src/types.ts'
+import {
+  openIDBearerHandlerFactory,
+  openIDRegisterBearerDecorator
+} from '../src/verify.ts'
+import { getTestKeys } from './fixtures/keys.ts'
+import {
+  createTestProvider,
+  respondToTokenRequests,
+  type TestProvider
+} from './fixtures/provider.ts'
+import { createExpiredTokenSet, createTokenSet } from './fixtures/tokens.ts'
+import { createTestConfig } from './helpers/config.ts'
+import {
+  createTestFastify,
+  createTestSession,
+  getTestChecks
+} from './helpers/fastify.ts'
+
+const createKeySession = (
+  initial?: OpenIDDPoPKey
+): OpenIDSession<OpenIDDPoPKey> => {
+  let key = initial
+  return {
+    get: () => key,
+    set: (_request, _reply, value) => {
+      key = value
+    }
+  }
+}
+
+const noRequest = {} as FastifyRequest
+const noReply = {} as FastifyReply
+
+describe('DPoP', () => {
+  let provider: TestProvider
+  let config: Configuration
+
+  before(async () => {
+    provider = await createTestProvider({ port: 3010 })
+    config = await createTestConfig({
+      issuer: provider.issuer,
+      clientId: 'test-client',
+      clientSecret: 'test-secret'
+    })
+  })
+
+  after(async () => {
+    await provider.stop()
+  })
+
+  const captureTokenRequests = () => {
+    const proofs: (string | undefined)[] = []
+    const capture = async (
+      ctx: { path: string; get: (name: string) => string },
+      next: () => Promise<unknown>
+    ) => {
+      if (ctx.path === '/token') {
+        proofs.push(ctx.get('dpop') || undefined)
+      }
+      await next()
+    }
+    provider.testMiddleware.add(capture)
+    return {
+      proofs,
+      remove: () => provider.testMiddleware.remove(capture)
+    }
+  }
+
+  it('should generate serializable key pairs', async () => {
+    const key = await generateDPoPKey()
+    assert.strictEqual(key.alg, 'ES256')
+    assert.ok(key.privateKey.d)
+    assert.strictEqual(key.publicKey.d, undefined)
+    const parsed = JSON.parse(JSON.stringify(key))
+    assert.ok(await openIDDPoPHandle(config, parsed))
+  })
+
+  it('should bind the authorization code to a new login key', async () => {
+    const current = await generateDPoPKey()
+    const dpop = createKeySession(current)
+    const session = createTestSession()
+    const fastify = await createTestFastify()
+    fastify.get(
+      '/login',
+      openIDLoginHandlerFactory(config, {
+        session,
+        dpop: { session: dpop }
+      })
+    )
+    await fastify.ready()
+    const response = await fastify.inject({ method: 'GET', url: '/login' })
+    assert.strictEqual(response.statusCode, 302)
+    // The key of the current tokens is kept until the code exchange succeeds
+    assert.strictEqual(await dpop.get(noRequest, noReply), current)
+    const key = (await getTestChecks(session))?.dpop
+    assert.ok(key)
+    const location = new URL(response.headers.location as string)
+    assert.strictEqual(
+      location.searchParams.get('dpop_jkt'),
+      await calculateDPoPThumbprint(key)
+    )
+    await fastify.close()
+  })
+
+  it('should send DPoP proofs with the login key on code exchange', async () => {
+    const key = await generateDPoPKey()
+    const current = await generateDPoPKey()
+    const dpop = createKeySession(current)
+    const capture = captureTokenRequests()
+    const fastify = await createTestFastify()
+    fastify.get(
+      '/callback',
+      openIDLoginHandlerFactory(config, {
+        parameters: { redirect_uri: 'http://localhost:8080/callback' },
+        session: createTestSession({
+          'test-state': { state: 'test-state', dpop: key }
+        }),
+        dpop: { session: dpop }
+      })
+    )
+    // The callback URL is built from the local port of the request socket
+    await fastify.listen({ port: 3011 })
+    await fetch(
+      `http://localhost:3011/callback?code=test-code&state=test-state&iss=${encodeURIComponent(provider.issuer)}`
+    )
+    capture.remove()
+    const [proof] = capture.proofs
+    assert.ok(proof)
+    const [header] = proof.split('.')
+    const { jwk } = JSON.parse(Buffer.from(header, 'base64url').toString())
+    assert.strictEqual(
+      await calculateJwkThumbprint(jwk),
+      await calculateDPoPThumbprint(key)
+    )
+    // The rejected code leaves the key of the current tokens in place
+    assert.strictEqual(await dpop.get(noRequest, noReply), current)
+    await fastify.close()
+  })
+
+  it('should store the login key once the code exchange succeeds', async () => {
+    const key = await generateDPoPKey()
+    const dpop = createKeySession(await generateDPoPKey())
+    const restore = respondToTokenRequests(
+      provider,
+      await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client',
+        nonce: 'test-nonce'
+      })
+    )
+    const fastify = await createTestFastify()
+    fastify.get(
+      '/callback',
+      openIDLoginHandlerFactory(config, {
+        parameters: { redirect_uri: 'http://localhost:8080/callback' },
+        callbackUrl: 'redirect_uri',
+        session: createTestSession({
+          'test-state': { state: 'test-state', nonce: 'test-nonce', dpop: key }
+        }),
+        dpop: { session: dpop }
+      })
+    )
+    await fastify.ready()
+    try {
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/callback?code=test-code&state=test-state&iss=${encodeURIComponent(provider.issuer)}`
+      })
+      assert.strictEqual(response.statusCode, 200)
+    } finally {
+      restore()
+      await fastify.close()
+    }
+    assert.strictEqual(await dpop.get(noRequest, noReply), key)
+  })
+
+  it('should send DPoP proofs on refresh', async () => {
+    const tokenset = await createExpiredTokenSet({
+      issuer: provider.issuer,
+      clientId: 'test-client'
+    })
+    const capture = captureTokenRequests()
+    const fastify = await createTestFastify()
+    fastify.get(
+      '/refresh',
+      openIDRefreshHandlerFactory(config, {
+        dpop: { session: createKeySession(await generateDPoPKey()) },
+        read: () => tokenset
+      })
+    )
+    await fastify.ready()
+    await fastify.inject({ method: 'GET', url: '/refresh' })
+    capture.remove()
+    assert.ok(capture.proofs[0])
+    await fastify.close()
+  })
+
+  it('should reject refresh without a session key', async () => {
+    const tokenset = await createExpiredTokenSet({
+      issuer: provider.issuer,
+      clientId: 'test-client'
+    })
+    const fastify = await createTestFastify()
+    fastify.get(
+      '/refresh',
+      openIDRefreshHandlerFactory(config, {
+        dpop: { session: createKeySession() },
+        read: () => tokenset
+      })
+    )
+    await fastify.ready()
+    const response = await fastify.inject({ method: 'GET', url: '/refresh' })
+    assert.strictEqual(response.statusCode, 400)
+    assert.strictEqual(response.json().code, 'FST_OPENID_DPOP_KEY_MISSING')
+    await fastify.close()
+  })
+})
+
+describe('openIDBearerHandlerFactory with DPoP', () => {
+  const issuer = 'https://test-issuer.example.com'
+
+  const createBoundAccessToken = async (key: OpenIDDPoPKey) => {
+    const keys = await getTestKeys()
+    return new SignJWT({
+      scope: 'openid',
+      cnf: { jkt: await calculateDPoPThumbprint(key) }
+    })
+      .setProtectedHeader({ alg: 'RS256', kid: keys.publicJwk.kid })
+      .setIssuer(issuer)
+      .setAudience('test-client')
+      .setSubject('test-user')
+      .setIssuedAt()
+      .setExpirationTime('1h')
+      .sign(keys.privateKey)
+  }
+
+  const createProof = async (
+    key: OpenIDDPoPKey,
+    accessToken: string,
+    { htm = 'GET', htu = 'http://localhost:80/api' } = {}
+  ) =>
+    new SignJWT({
+      htm,
+      htu,
+      ath: createHash('sha256').update(accessToken).digest('base64url')
+    })
+      .setProtectedHeader({ alg: key.alg, typ: 'dpop+jwt', jwk: key.publicKey })
+      .setJti(crypto.randomUUID())
+      .setIssuedAt()
+      .sign(await importJWK(key.privateKey, key.alg))
+
+  const createDPoPFastify = async () => {
+    const keys = await getTestKeys()
+    const fastify = await createTestFastify()
+    openIDRegisterBearerDecorator(fastify)
+    fastify.get(
+      '/api',
+      {
+        preHandler: openIDBearerHandlerFactory({
+          key: keys.publicKey,
+          options: { issuer, audience: 'test-client' },
+          dpop: {}
+        })
+      },
+      async (request) => ({
+        sub: request.user?.sub
+      })
+    )
+    await fastify.ready()
+    return fastify
+  }
+
+  it('should accept DPoP-bound tokens with a valid proof', async () => {
+    const key = await generateDPoPKey()
+    const accessToken = await createBoundAccessToken(key)
+    const fastify = await createDPoPFastify()
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/api',
+      headers: {
+        authorization: `DPoP ${accessToken}`,
+        dpop: await createProof(key, accessToken)
+      }
+    })
+    assert.strictEqual(response.statusCode, 200)
+    assert.deepStrictEqual(response.json(), { sub: 'test-user' })
+    await fastify.close()
+  })
+
+  it('should reject DPoP-bound tokens used as bearer tokens', async () => {
+    const key = await generateDPoPKey()
+    const accessToken = await createBoundAccessToken(key)
+    const fastify = await createDPoPFastify()
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/api',
+      headers: { authorization: `Bearer ${accessToken}` }
+    })
+    assert.strictEqual(response.statusCode, 401)
+    assert.match(
+      response.headers['www-authenticate'] as string,
+      /^Bearer error="invalid_token"/
+    )
+    await fastify.close()
+  })
+
+  it('should reject invalid, mismatching and replayed proofs', async () => {
+    const key = await generateDPoPKey()
+    const accessToken = await createBoundAccessToken(key)
+    const fastify = await createDPoPFastify()
+    const inject = (proof: string) =>
+      fastify.inject({
+        method: 'GET',
+        url: '/api',
+        headers: { authorization: `DPoP ${accessToken}`, dpop: proof }
+      })
+
+    const wrongUri = await inject(
+      await createProof(key, accessToken, { htu: 'http://localhost/other' })
+    )
+    assert.strictEqual(wrongUri.statusCode, 401)
+    assert.match(
+      wrongUri.headers['www-authenticate'] as string,
+      /^DPoP algs="[^"]+", error="invalid_dpop_proof"/
+    )
+
+    const otherKey = await inject(
+      await createProof(await generateDPoPKey(), accessToken)
+    )
+    assert.strictEqual(otherKey.json().code, 'FST_OPENID_DPOP_PROOF')
+
+    const proof = await createProof(key, accessToken)
+    assert.strictEqual((await inject(proof)).statusCode, 200)
+    const replayed = await inject(proof)
+    assert.strictEqual(replayed.statusCode, 401)
+    assert.match(replayed.json().message, /already been used/)
+    await fastify.close()
+  })
+})
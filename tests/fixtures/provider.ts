@@ -116,7 +116,11 @@ export async function createTestProvider(
     adapter: TestAdapter,
     jwks: getPrivateJWKS(keys),
     features: {
-      devInteractions: { enabled: false }
+      devInteractions: { enabled: false },
+      introspection: { enabled: true },
+      revocation: { enabled: true },
+      dPoP: { enabled: true },
+      requestObjects: { enabled: true }
     },
     pkce: {
       required: () => false
@@ -150,3 +154,18 @@ export async function createTestProvider(
 
   return { issuer, provider, server, stop, testMiddleware }
 }
+
+// Answers token requests with the given response instead of the provider
+export function respondToTokenRequests(
+  provider: TestProvider,
+  body: object
+): () => void {
+  const respond: Middleware = async (ctx, next) => {
+    if (ctx.path !== '/token') {
+      return next()
+    }
+    ctx.body = body
+  }
+  provider.testMiddleware.add(respond)
+  return () => provider.testMiddleware.remove(respond)
+}
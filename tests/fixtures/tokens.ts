@@ -8,6 +8,8 @@ export interface CreateTokenOptions {
   subject?: string
   expiresIn?: number
   nonce?: string
+  sid?: string
+  scope?: string
 }
 
 export async function createIdToken(
@@ -18,6 +20,7 @@ export async function createIdToken(
 
   return new SignJWT({
     nonce: options.nonce,
+    sid: options.sid,
     auth_time: now
   })
     .setProtectedHeader({ alg: 'RS256', kid: keys.publicJwk.kid })
@@ -36,7 +39,7 @@ export async function createAccessToken(
   const now = Math.floor(Date.now() / 1000)
 
   return new SignJWT({
-    scope: 'openid'
+    scope: options.scope ?? 'openid'
   })
     .setProtectedHeader({ alg: 'RS256', kid: keys.publicJwk.kid })
     .setIssuer(options.issuer)
@@ -80,3 +83,35 @@ export async function createExpiredTokenSet(
     expires_at: now - 3600
   }
 }
+
+export interface CreateLogoutTokenOptions extends CreateTokenOptions {
+  jti?: string
+  events?: Record<string, unknown>
+}
+
+export async function createLogoutToken(
+  options: CreateLogoutTokenOptions
+): Promise<string> {
+  const keys = await getTestKeys()
+  const now = Math.floor(Date.now() / 1000)
+
+  return new SignJWT({
+    sid: options.sid,
+    nonce: options.nonce,
+    events: options.events ?? {
+      'http://schemas.openid.net/event/backchannel-logout': {}
+    }
+  })
+    .setProtectedHeader({
+      alg: 'RS256',
+      kid: keys.publicJwk.kid,
+      typ: 'logout+jwt'
+    })
+    .setIssuer(options.issuer)
+    .setSubject(options.subject ?? 'test-user')
+    .setAudience(options.clientId)
+    .setIssuedAt(now)
+    .setExpirationTime(now + (options.expiresIn ?? 120))
+    .setJti(options.jti ?? crypto.randomUUID())
+    .sign(keys.privateKey)
+}
@@ -0,0 +1,174 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import type { JWTPayload, JWTVerifyResult } from 'jose'
+import {
+  OpenIDForbiddenError,
+  openIDGuard,
+  openIDGuardFactory
+} from '../src/guard.ts'
+import type { OpenIDJWTVerified } from '../src/types.ts'
+import { openIDVerifyHandlerFactory } from '../src/verify.ts'
+import { getTestKeys } from './fixtures/keys.ts'
+import { createTokenSet } from './fixtures/tokens.ts'
+import { createTestFastify } from './helpers/fastify.ts'
+
+const verifiedAccessToken = (payload: JWTPayload): OpenIDJWTVerified => ({
+  access_token: { payload } as JWTVerifyResult
+})
+
+const isForbidden = (error: Error & { code?: string; statusCode?: number }) =>
+  error.code === 'FST_OPENID_FORBIDDEN' && error.statusCode === 403
+
+describe('openIDGuard', () => {
+  it('should require every scope', () => {
+    const verified = verifiedAccessToken({ scope: 'openid read write' })
+    assert.ok(openIDGuard(verified, { scope: ['read', 'write'] }))
+    assert.throws(
+      () => openIDGuard(verified, { scope: ['read', 'admin'] }),
+      isForbidden
+    )
+  })
+
+  it('should match any-of and all-of roles and groups', () => {
+    const verified = verifiedAccessToken({
+      roles: ['reader', 'editor'],
+      groups: ['staff']
+    })
+    assert.ok(
+      openIDGuard(verified, {
+        roles: { anyOf: ['admin', 'editor'], allOf: ['reader'] },
+        groups: { allOf: ['staff'] }
+      })
+    )
+    assert.throws(
+      () => openIDGuard(verified, { roles: { anyOf: ['admin'] } }),
+      isForbidden
+    )
+    assert.throws(
+      () => openIDGuard(verified, { groups: { allOf: ['staff', 'ops'] } }),
+      isForbidden
+    )
+  })
+
+  it('should read roles from nested claims', () => {
+    const verified = verifiedAccessToken({
+      realm_access: { roles: ['admin'] }
+    })
+    assert.ok(
+      openIDGuard(verified, {
+        rolesClaim: 'realm_access.roles',
+        roles: { anyOf: ['admin'] }
+      })
+    )
+  })
+
+  it('should check claim values and predicates', () => {
+    const verified = verifiedAccessToken({ tenant: 'acme', level: 3 })
+    assert.ok(
+      openIDGuard(verified, {
+        claims: {
+          tenant: 'acme',
+          level: (value) => typeof value === 'number' && value >= 2
+        }
+      })
+    )
+    assert.throws(
+      () => openIDGuard(verified, { claims: { tenant: 'other' } }),
+      isForbidden
+    )
+  })
+
+  it('should read claims from the configured token', () => {
+    const verified: OpenIDJWTVerified = {
+      id_token: { payload: { roles: ['admin'] } } as JWTVerifyResult,
+      introspection: { active: true, scope: 'read' }
+    }
+    assert.ok(openIDGuard(verified, { scope: ['read'] }))
+    assert.ok(
+      openIDGuard(verified, { token: 'id_token', roles: { anyOf: ['admin'] } })
+    )
+    assert.throws(() => openIDGuard(undefined, {}), isForbidden)
+  })
+
+  it('should export OpenIDForbiddenError', () => {
+    const error = new OpenIDForbiddenError('test')
+    assert.strictEqual(error.code, 'FST_OPENID_FORBIDDEN')
+    assert.strictEqual(error.statusCode, 403)
+  })
+})
+
+describe('openIDGuardFactory', () => {
+  it('should combine per-route requirements from routeOptions.config', async () => {
+    const keys = await getTestKeys()
+    const tokenset = await createTokenSet({
+      issuer: 'https://test-issuer.example.com',
+      clientId: 'test-client',
+      scope: 'openid read'
+    })
+    const written: string[] = []
+    const verify = openIDVerifyHandlerFactory({
+      key: keys.publicKey,
+      tokens: ['access_token'],
+      read: () => tokenset,
+      write: openIDGuardFactory({
+        scope: ['read'],
+        write: (request) => {
+          written.push(request.url)
+        }
+      })
+    })
+    const fastify = await createTestFastify()
+    fastify.get('/read', { preHandler: verify }, async () => ({ ok: true }))
+    fastify.get(
+      '/admin',
+      {
+        preHandler: verify,
+        config: { openid: { roles: { anyOf: ['admin'] } } }
+      },
+      async () => ({ ok: true })
+    )
+    await fastify.ready()
+    const read = await fastify.inject({ method: 'GET', url: '/read' })
+    assert.strictEqual(read.statusCode, 200)
+    const admin = await fastify.inject({ method: 'GET', url: '/admin' })
+    assert.strictEqual(admin.statusCode, 403)
+    assert.strictEqual(admin.json().code, 'FST_OPENID_FORBIDDEN')
+    assert.deepStrictEqual(written, ['/read'])
+    await fastify.close()
+  })
+
+  it('should enforce factory requirements next to route requirements', async () => {
+    const guard = openIDGuardFactory({
+      scope: ['read'],
+      claims: { tenant: 'acme' }
+    })
+    const routeRequest = (openid: object) =>
+      ({
+        routeOptions: { config: { openid } },
+        log: { trace: () => {} }
+      }) as unknown as FastifyRequest
+    const check = (payload: JWTPayload, openid: object) =>
+      guard.call(
+        {} as FastifyInstance,
+        routeRequest(openid),
+        {} as FastifyReply,
+        {},
+        verifiedAccessToken(payload)
+      )
+    const admin = { scope: 'read write', tenant: 'acme', admin: true }
+    await check(admin, { scope: ['write'], claims: { admin: true } })
+    await assert.rejects(
+      check({ ...admin, tenant: 'other' }, { claims: { admin: true } }),
+      isForbidden
+    )
+    await assert.rejects(
+      check({ ...admin, scope: 'write' }, { scope: ['write'] }),
+      isForbidden
+    )
+    await assert.rejects(
+      check({ ...admin, admin: false }, { claims: { admin: true } }),
+      isForbidden
+    )
+  })
+})
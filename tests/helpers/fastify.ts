@@ -1,7 +1,16 @@
-import Fastify, { type FastifyInstance } from 'fastify'
-import type { AuthorizationChecks, OpenIDSession } from '../../src/index.ts'
+import Fastify, {
+  type FastifyInstance,
+  type FastifyReply,
+  type FastifyRequest,
+  type FastifyServerOptions
+} from 'fastify'
+import type {
+  AuthorizationChecks,
+  AuthorizationRequests,
+  OpenIDSession
+} from '../../src/index.ts'
 
-export const createTestSession = <T extends AuthorizationChecks>(
+export const createTestSession = <T = AuthorizationRequests>(
   initial?: T
 ): OpenIDSession<T> => {
   let store: T | undefined = initial
@@ -17,8 +26,30 @@ export const createTestSession = <T extends AuthorizationChecks>(
   return { get, set }
 }
 
-export async function createTestFastify(): Promise<FastifyInstance> {
+// Reads the only pending authorization request of a test session
+export const getTestChecks = async (
+  session: OpenIDSession<AuthorizationRequests>
+): Promise<AuthorizationChecks | undefined> => {
+  const requests = await session.get({} as FastifyRequest, {} as FastifyReply)
+  return Object.values(requests ?? {})[0]
+}
+
+export async function createTestFastify(
+  options?: FastifyServerOptions
+): Promise<FastifyInstance> {
   return Fastify({
-    logger: false
+    logger: false,
+    ...options
   })
 }
+
+export function addFormBodyParser(fastify: FastifyInstance): FastifyInstance {
+  fastify.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'string' },
+    (_request, body, done) => {
+      done(null, Object.fromEntries(new URLSearchParams(body as string)))
+    }
+  )
+  return fastify
+}
@@ -1,16 +1,46 @@
 import assert from 'node:assert'
 import { after, before, describe, it } from 'node:test'
 import type { FastifyReply, FastifyRequest } from 'fastify'
-import type { Configuration } from 'openid-client'
 import {
+  type CryptoKey,
+  compactDecrypt,
+  generateKeyPair,
+  jwtVerify,
+  SignJWT
+} from 'jose'
+import {
+  allowInsecureRequests,
+  Configuration,
+  customFetch
+} from 'openid-client'
+import {
+  type OpenIDAuthorizationErrorResponse,
+  type OpenIDLoginHandlerOptions,
+  OpenIDLoginRequiredError,
+  type OpenIDSilentLoginResult,
   openIDLoginHandlerFactory,
+  openIDRegisterFormBodyParser,
+  openIDSilentLoginHandlerFactory,
   SessionKeyError,
   SessionValueError,
   SupportedMethodError
 } from '../src/login.ts'
-import { createTestProvider, type TestProvider } from './fixtures/provider.ts'
+import { getTestKeys } from './fixtures/keys.ts'
+import {
+  createTestProvider,
+  respondToTokenRequests,
+  type TestProvider
+} from './fixtures/provider.ts'
+import { createTokenSet } from './fixtures/tokens.ts'
 import { createTestConfig } from './helpers/config.ts'
-import { createTestFastify, createTestSession } from './helpers/fastify.ts'
+import {
+  createTestFastify,
+  createTestSession,
+  getTestChecks
+} from './helpers/fastify.ts'
+
+const noRequest = {} as FastifyRequest
+const noReply = {} as FastifyReply
 
 describe('openIDLoginHandlerFactory', () => {
   let provider: TestProvider
@@ -77,12 +107,10 @@ describe('openIDLoginHandlerFactory', () => {
       assert.ok(location.includes('scope=openid'))
       assert.ok(location.includes('state='))
       assert.ok(location.includes('nonce='))
-      const mockRequest = {} as FastifyRequest
-      const mockReply = {} as FastifyReply
-      const callbackChecks = await session.get(mockRequest, mockReply)
+      const callbackChecks = await getTestChecks(session)
       assert.ok(callbackChecks)
-      assert.ok((callbackChecks as { state: string }).state)
-      assert.ok((callbackChecks as { nonce: string }).nonce)
+      assert.ok(callbackChecks.state)
+      assert.ok(callbackChecks.nonce)
       await fastify.close()
     })
 
@@ -98,9 +126,7 @@ describe('openIDLoginHandlerFactory', () => {
         method: 'GET',
         url: '/login'
       })
-      const mockRequest = {} as FastifyRequest
-      const mockReply = {} as FastifyReply
-      const callbackChecks = await session.get(mockRequest, mockReply)
+      const callbackChecks = await getTestChecks(session)
       assert.ok(callbackChecks)
       await fastify.close()
     })
@@ -170,12 +196,8 @@ describe('openIDLoginHandlerFactory', () => {
         assert.ok(location.includes('code_challenge='))
         assert.ok(location.includes('code_challenge_method=S256'))
         // Session should have pkceCodeVerifier stored
-        const mockRequest = {} as FastifyRequest
-        const mockReply = {} as FastifyReply
-        const callbackChecks = (await session.get(mockRequest, mockReply)) as {
-          pkceCodeVerifier?: string
-        }
-        assert.ok(callbackChecks.pkceCodeVerifier)
+        const callbackChecks = await getTestChecks(session)
+        assert.ok(callbackChecks?.pkceCodeVerifier)
 
         await fastify.close()
       })
@@ -249,6 +271,161 @@ describe('openIDLoginHandlerFactory', () => {
         await fastify.close()
       })
     })
+
+    describe('PAR', () => {
+      const loginLocation = async (
+        loginConfig: Configuration,
+        usePAR?: boolean
+      ) => {
+        const fastify = await createTestFastify()
+        fastify.get(
+          '/login',
+          openIDLoginHandlerFactory(loginConfig, {
+            usePAR,
+            parameters: { redirect_uri: 'http://localhost:8080/callback' },
+            session: createTestSession()
+          })
+        )
+        await fastify.ready()
+        const response = await fastify.inject({ method: 'GET', url: '/login' })
+        await fastify.close()
+        assert.strictEqual(response.statusCode, 302)
+        return new URL(response.headers.location as string)
+      }
+
+      it('should redirect with only request_uri and client_id when usePAR is true', async () => {
+        const location = await loginLocation(config, true)
+        assert.deepStrictEqual([...location.searchParams.keys()].sort(), [
+          'client_id',
+          'request_uri'
+        ])
+        assert.ok(
+          location.searchParams
+            .get('request_uri')
+            ?.startsWith('urn:ietf:params:oauth:request_uri:')
+        )
+      })
+
+      it('should use PAR when the issuer requires it', async () => {
+        const requiredConfig = new Configuration(
+          {
+            ...config.serverMetadata(),
+            require_pushed_authorization_requests: true
+          },
+          'test-client',
+          'test-secret'
+        )
+        allowInsecureRequests(requiredConfig)
+        const location = await loginLocation(requiredConfig)
+        assert.ok(location.searchParams.has('request_uri'))
+        assert.ok(!location.searchParams.has('state'))
+        const optedOut = await loginLocation(requiredConfig, false)
+        assert.ok(optedOut.searchParams.has('state'))
+      })
+    })
+
+    describe('JAR', () => {
+      const loginWithRequestObject = async (
+        loginConfig: Configuration,
+        options: Partial<OpenIDLoginHandlerOptions>
+      ) => {
+        const session = createTestSession()
+        const fastify = await createTestFastify()
+        fastify.get(
+          '/login',
+          openIDLoginHandlerFactory(loginConfig, {
+            parameters: { redirect_uri: 'http://localhost:8080/callback' },
+            session,
+            ...options
+          })
+        )
+        await fastify.ready()
+        const response = await fastify.inject({ method: 'GET', url: '/login' })
+        await fastify.close()
+        assert.strictEqual(response.statusCode, 302)
+        return {
+          location: new URL(response.headers.location as string),
+          checks: await getTestChecks(session)
+        }
+      }
+
+      it('should sign the parameters into a request object', async () => {
+        const keys = await getTestKeys()
+        const { location, checks } = await loginWithRequestObject(config, {
+          usePAR: false,
+          requestObject: { key: keys.privateKey as CryptoKey }
+        })
+        assert.deepStrictEqual([...location.searchParams.keys()].sort(), [
+          'client_id',
+          'request'
+        ])
+        const { payload } = await jwtVerify(
+          location.searchParams.get('request') as string,
+          keys.publicKey
+        )
+        assert.strictEqual(payload.state, checks?.state)
+        assert.strictEqual(
+          payload.redirect_uri,
+          'http://localhost:8080/callback'
+        )
+      })
+
+      it('should encrypt the request object when configured', async () => {
+        const keys = await getTestKeys()
+        const encryption = await generateKeyPair('RSA-OAEP-256')
+        const { location } = await loginWithRequestObject(config, {
+          usePAR: false,
+          requestObject: {
+            key: keys.privateKey as CryptoKey,
+            encryption: { key: encryption.publicKey, alg: 'RSA-OAEP-256' }
+          }
+        })
+        const { plaintext, protectedHeader } = await compactDecrypt(
+          location.searchParams.get('request') as string,
+          encryption.privateKey
+        )
+        assert.strictEqual(protectedHeader.cty, 'JWT')
+        const { payload } = await jwtVerify(
+          new TextDecoder().decode(plaintext),
+          keys.publicKey
+        )
+        assert.strictEqual(payload.response_type, 'code')
+      })
+
+      it('should push the request object with PAR', async () => {
+        const keys = await getTestKeys()
+        const jarProvider = await createTestProvider({
+          port: 3012,
+          clients: [
+            {
+              client_id: 'test-client',
+              client_secret: 'test-secret',
+              redirect_uris: ['http://localhost:8080/callback'],
+              response_types: ['code'],
+              grant_types: ['authorization_code', 'refresh_token'],
+              jwks: { keys: [keys.publicJwk] }
+            }
+          ]
+        })
+        try {
+          const jarConfig = await createTestConfig({
+            issuer: jarProvider.issuer,
+            clientId: 'test-client',
+            clientSecret: 'test-secret'
+          })
+          const { location } = await loginWithRequestObject(jarConfig, {
+            usePAR: true,
+            requestObject: { key: keys.privateKey as CryptoKey }
+          })
+          assert.deepStrictEqual([...location.searchParams.keys()].sort(), [
+            'client_id',
+            'request_uri'
+          ])
+        } finally {
+          await jarProvider.stop()
+        }
+      })
+    })
   })
 
   describe('callback handling', () => {
@@ -275,6 +452,73 @@ describe('openIDLoginHandlerFactory', () => {
       await fastify.close()
     })
 
+    describe('pending requests', () => {
+      const login = async (
+        pendingRequests?: OpenIDLoginHandlerOptions['pendingRequests'],
+        logins = 2
+      ) => {
+        const session = createTestSession()
+        const fastify = await createTestFastify()
+        fastify.get(
+          '/login',
+          openIDLoginHandlerFactory(config, {
+            parameters: { redirect_uri: 'http://localhost:8080/callback' },
+            callbackUrl: 'redirect_uri',
+            pendingRequests,
+            session
+          })
+        )
+        await fastify.ready()
+        const states: string[] = []
+        for (let i = 0; i < logins; i++) {
+          const response = await fastify.inject({
+            method: 'GET',
+            url: '/login'
+          })
+          const location = new URL(response.headers.location as string)
+          states.push(location.searchParams.get('state') as string)
+        }
+        const callback = (state: string) =>
+          fastify.inject({
+            method: 'GET',
+            url: `/login?code=test-code&state=${state}&iss=${encodeURIComponent(provider.issuer)}`
+          })
+        return { session, fastify, states, callback }
+      }
+
+      it('should keep parallel logins pending by state', async () => {
+        const { session, fastify, states, callback } = await login()
+        const [first, second] = states
+        const response = await callback(first)
+        // The code exchange fails, the pending request was found
+        assert.notStrictEqual(response.json().code, 'FST_SESSION_VALUE')
+        assert.deepStrictEqual(
+          Object.keys((await session.get(noRequest, noReply)) ?? {}),
+          [second]
+        )
+        // Retrying a consumed request fails
+        const retry = await callback(first)
+        assert.strictEqual(retry.json().code, 'FST_SESSION_VALUE')
+        await fastify.close()
+      })
+
+      it('should keep the most recent pending requests', async () => {
+        const { session, fastify, states } = await login({ max: 2 }, 3)
+        assert.deepStrictEqual(
+          Object.keys((await session.get(noRequest, noReply)) ?? {}).sort(),
+          states.slice(1).sort()
+        )
+        await fastify.close()
+      })
+
+      it('should reject expired pending requests', async () => {
+        const { fastify, states, callback } = await login({ maxAge: 0 }, 1)
+        const response = await callback(states[0])
+        assert.strictEqual(response.json().code, 'FST_SESSION_VALUE')
+        await fastify.close()
+      })
+    })
+
     it('should call write function with tokenset after successful callback', async () => {
       // This test requires a full OIDC flow which is complex to mock
       // We'll test that the handler structure is correct
@@ -310,6 +554,558 @@ describe('openIDLoginHandlerFactory', () => {
     })
   })
 
+  describe('callback URL', () => {
+    let urlConfig: Configuration
+    const redirectUris: (string | null)[] = []
+
+    before(async () => {
+      urlConfig = await createTestConfig({
+        issuer: provider.issuer,
+        clientId: 'test-client',
+        clientSecret: 'test-secret'
+      })
+      // The callback URL is sent as redirect_uri in the token request
+      urlConfig[customFetch] = (url, options) => {
+        if (options.body instanceof URLSearchParams) {
+          redirectUris.push(options.body.get('redirect_uri'))
+        }
+        return fetch(url, options)
+      }
+    })
+
+    const callback = async (
+      options: Partial<OpenIDLoginHandlerOptions>,
+      headers: Record<string, string> = {},
+      trustProxy = false
+    ) => {
+      redirectUris.length = 0
+      const fastify = await createTestFastify({ trustProxy })
+      fastify.get(
+        '/callback',
+        openIDLoginHandlerFactory(urlConfig, {
+          parameters: { redirect_uri: 'https://app.example.com/callback' },
+          session: createTestSession({ 'test-state': { state: 'test-state' } }),
+          ...options
+        })
+      )
+      await fastify.ready()
+      await fastify.inject({
+        method: 'GET',
+        url: `/callback?code=test-code&state=test-state&iss=${encodeURIComponent(provider.issuer)}`,
+        headers
+      })
+      await fastify.close()
+      return redirectUris[0]
+    }
+
+    it('should derive the callback URL from the redirect_uri', async () => {
+      assert.strictEqual(
+        await callback({ callbackUrl: 'redirect_uri' }),
+        'https://app.example.com/callback'
+      )
+    })
+
+    it('should honour X-Forwarded headers when trustProxy is set', async () => {
+      const headers = {
+        'x-forwarded-proto': 'https',
+        'x-forwarded-host': 'app.example.com',
+        'x-forwarded-port': '8443',
+        'x-forwarded-prefix': '/auth'
+      }
+      assert.strictEqual(
+        await callback({}, headers, true),
+        'https://app.example.com:8443/auth/callback'
+      )
+      // Headers of untrusted proxies are ignored
+      assert.notStrictEqual(
+        await callback({}, headers),
+        'https://app.example.com:8443/auth/callback'
+      )
+    })
+
+    it('should honour the Forwarded header when trustProxy is set', async () => {
+      assert.strictEqual(
+        await callback(
+          {},
+          { forwarded: 'for=192.0.2.1;proto=https;host="app.example.com"' },
+          true
+        ),
+        'https://app.example.com/callback'
+      )
+      // Only the element appended by the trusted proxy is used
+      assert.strictEqual(
+        await callback(
+          {},
+          {
+            forwarded:
+              'proto=http;host=evil.example.com, for=192.0.2.1;proto=https;host="app.example.com"'
+          },
+          true
+        ),
+        'https://app.example.com/callback'
+      )
+    })
+
+    it('should support a callbackUrl resolver', async () => {
+      assert.strictEqual(
+        await callback({
+          callbackUrl: (request, _reply, redirectUri) =>
+            `${redirectUri}/resolved${request.url.slice(request.url.indexOf('?'))}`
+        }),
+        'https://app.example.com/callback/resolved'
+      )
+    })
+  })
+
+  describe('form_post', () => {
+    const postCallback = async (form: Record<string, string>) => {
+      const tokenRequests: string[] = []
+      const capture = async (
+        ctx: { path: string },
+        next: () => Promise<unknown>
+      ) => {
+        if (ctx.path === '/token') {
+          tokenRequests.push(ctx.path)
+        }
+        await next()
+      }
+      provider.testMiddleware.add(capture)
+      const fastify = await createTestFastify()
+      openIDRegisterFormBodyParser(fastify)
+      fastify.post(
+        '/callback',
+        openIDLoginHandlerFactory(config, {
+          parameters: { redirect_uri: 'http://localhost:8080/callback' },
+          session: createTestSession({ 'test-state': { state: 'test-state' } })
+        })
+      )
+      try {
+        // The callback URL is built from the local port of the request socket
+        await fastify.listen({ port: 3014 })
+        const response = await fetch('http://localhost:3014/callback', {
+          method: 'POST',
+          body: new URLSearchParams(form)
+        })
+        return { response, tokenRequests }
+      } finally {
+        provider.testMiddleware.remove(capture)
+        await fastify.close()
+      }
+    }
+
+    it('should exchange the code of a POSTed callback', async () => {
+      const { tokenRequests } = await postCallback({
+        code: 'test-code',
+        state: 'test-state',
+        iss: provider.issuer
+      })
+      assert.strictEqual(tokenRequests.length, 1)
+    })
+
+    it('should validate the POSTed state before the code exchange', async () => {
+      const { response, tokenRequests } = await postCallback({
+        code: 'test-code',
+        state: 'other-state',
+        iss: provider.issuer
+      })
+      assert.strictEqual(response.status, 500)
+      assert.strictEqual(tokenRequests.length, 0)
+    })
+
+    it('should keep a form body parser that is already registered', async () => {
+      const fastify = await createTestFastify()
+      fastify.addContentTypeParser(
+        'application/x-www-form-urlencoded',
+        { parseAs: 'string' },
+        (_request, body, done) => done(null, { parsed: body })
+      )
+      openIDRegisterFormBodyParser(fastify)
+      fastify.post('/form', async (request) => request.body)
+      await fastify.ready()
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/form',
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        payload: 'a=b'
+      })
+      assert.deepStrictEqual(response.json(), { parsed: 'a=b' })
+      await fastify.close()
+    })
+  })
+
+  describe('JARM', () => {
+    let jarmConfig: Configuration
+
+    before(async () => {
+      // useJwtResponseMode changes the configuration it is called with
+      jarmConfig = await createTestConfig({
+        issuer: provider.issuer,
+        clientId: 'test-client',
+        clientSecret: 'test-secret'
+      })
+    })
+
+    const signResponse = async (claims: Record<string, string>) => {
+      const keys = await getTestKeys()
+      return new SignJWT(claims)
+        .setProtectedHeader({ alg: 'RS256', kid: 'test-key-1' })
+        .setIssuer(provider.issuer)
+        .setAudience('test-client')
+        .setIssuedAt()
+        .setExpirationTime('1m')
+        .sign(keys.privateKey)
+    }
+
+    const callback = async (response: string) => {
+      const tokenRequests: string[] = []
+      const capture = async (
+        ctx: { path: string },
+        next: () => Promise<unknown>
+      ) => {
+        if (ctx.path === '/token') {
+          tokenRequests.push(ctx.path)
+        }
+        await next()
+      }
+      provider.testMiddleware.add(capture)
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/callback',
+        openIDLoginHandlerFactory(jarmConfig, {
+          parameters: { redirect_uri: 'http://localhost:8080/callback' },
+          session: createTestSession({ 'test-state': { state: 'test-state' } }),
+          useJwtResponseMode: true
+        })
+      )
+      try {
+        // The callback URL is built from the local port of the request socket
+        await fastify.listen({ port: 3013 })
+        const result = await fetch(
+          `http://localhost:3013/callback?response=${response}`
+        )
+        return { body: await result.json(), tokenRequests }
+      } finally {
+        provider.testMiddleware.remove(capture)
+        await fastify.close()
+      }
+    }
+
+    it('should request the jwt response mode', async () => {
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/login',
+        openIDLoginHandlerFactory(jarmConfig, {
+          session: createTestSession(),
+          useJwtResponseMode: true
+        })
+      )
+      await fastify.ready()
+      const response = await fastify.inject({ method: 'GET', url: '/login' })
+      const location = new URL(response.headers.location as string)
+      assert.strictEqual(location.searchParams.get('response_mode'), 'jwt')
+      await fastify.close()
+    })
+
+    it('should exchange the code of a valid response', async () => {
+      const { tokenRequests } = await callback(
+        await signResponse({ code: 'test-code', state: 'test-state' })
+      )
+      assert.strictEqual(tokenRequests.length, 1)
+    })
+
+    it('should reject a tampered response before the code exchange', async () => {
+      const [header, , signature] = (
+        await signResponse({ code: 'test-code', state: 'test-state' })
+      ).split('.')
+      const payload = Buffer.from(
+        JSON.stringify({
+          iss: provider.issuer,
+          aud: 'test-client',
+          exp: Math.floor(Date.now() / 1000) + 60,
+          code: 'other-code',
+          state: 'test-state'
+        })
+      ).toString('base64url')
+      const { body, tokenRequests } = await callback(
+        `${header}.${payload}.${signature}`
+      )
+      assert.strictEqual(body.statusCode, 500)
+      assert.strictEqual(tokenRequests.length, 0)
+    })
+  })
+
+  describe('returnTo', () => {
+    const login = async (
+      returnTo: OpenIDLoginHandlerOptions['returnTo'],
+      url: string,
+      headers: Record<string, string> = {}
+    ) => {
+      const session = createTestSession()
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/login',
+        openIDLoginHandlerFactory(config, { returnTo, session })
+      )
+      await fastify.ready()
+      await fastify.inject({ method: 'GET', url, headers })
+      await fastify.close()
+      return (await getTestChecks(session))?.returnTo
+    }
+
+    it('should capture relative return URLs from the query', async () => {
+      assert.strictEqual(
+        await login(true, `/login?returnTo=${encodeURIComponent('/app?x=1')}`),
+        '/app?x=1'
+      )
+      assert.strictEqual(await login(false, '/login?returnTo=/app'), undefined)
+    })
+
+    it('should fall back to a same origin Referer', async () => {
+      assert.strictEqual(
+        await login(true, '/login', {
+          host: 'app.example.com',
+          referer: 'http://app.example.com/page#top'
+        }),
+        '/page#top'
+      )
+      assert.strictEqual(
+        await login({ referer: false }, '/login', {
+          referer: 'http://localhost/page'
+        }),
+        undefined
+      )
+    })
+
+    it('should reject URLs outside the allow-list', async () => {
+      for (const url of [
+        'https://evil.example.com/',
+        '//evil.example.com/',
+        '/\\evil.example.com/',
+        'javascript:alert(1)',
+        '/admin',
+        '/app/../admin'
+      ]) {
+        assert.strictEqual(
+          await login(
+            { allow: ['https://app.example.com', '/app'], default: '/' },
+            `/login?returnTo=${encodeURIComponent(url)}`
+          ),
+          '/',
+          url
+        )
+      }
+    })
+
+    it('should allow listed origins and paths', async () => {
+      assert.strictEqual(
+        await login(
+          { allow: ['https://app.example.com', '/app'] },
+          `/login?returnTo=${encodeURIComponent('https://app.example.com/app/x')}`
+        ),
+        'https://app.example.com/app/x'
+      )
+    })
+
+    it('should redirect to the return URL after the callback', async () => {
+      const tokenset = await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client',
+        nonce: 'test-nonce'
+      })
+      const restore = respondToTokenRequests(provider, tokenset)
+      const callback = async (write?: OpenIDLoginHandlerOptions['write']) => {
+        const fastify = await createTestFastify()
+        fastify.get(
+          '/callback',
+          openIDLoginHandlerFactory(config, {
+            parameters: { redirect_uri: 'http://localhost:8080/callback' },
+            callbackUrl: 'redirect_uri',
+            returnTo: true,
+            session: createTestSession({
+              'test-state': {
+                state: 'test-state',
+                nonce: 'test-nonce',
+                returnTo: '/app'
+              }
+            }),
+            write
+          })
+        )
+        await fastify.ready()
+        const response = await fastify.inject({
+          method: 'GET',
+          url: `/callback?code=test-code&state=test-state&iss=${encodeURIComponent(provider.issuer)}`
+        })
+        await fastify.close()
+        return response
+      }
+      try {
+        const response = await callback()
+        assert.strictEqual(response.statusCode, 302)
+        assert.strictEqual(response.headers.location, '/app')
+        const sent = await callback((_request, reply) =>
+          reply.send({ written: true })
+        )
+        assert.deepStrictEqual(sent.json(), { written: true })
+      } finally {
+        restore()
+      }
+    })
+  })
+
+  describe('authorization errors', () => {
+    const callback = async (
+      query: string,
+      onError?: OpenIDLoginHandlerOptions['onError']
+    ) => {
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/callback',
+        openIDLoginHandlerFactory(config, {
+          parameters: { redirect_uri: 'http://localhost:8080/callback' },
+          callbackUrl: 'redirect_uri',
+          session: createTestSession({ 'test-state': { state: 'test-state' } }),
+          onError
+        })
+      )
+      await fastify.ready()
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/callback?${query}&iss=${encodeURIComponent(provider.issuer)}`
+      })
+      await fastify.close()
+      return response
+    }
+
+    it('should throw typed errors for error responses', async () => {
+      const denied = await callback(
+        'error=access_denied&error_description=User%20denied&state=test-state'
+      )
+      assert.strictEqual(denied.statusCode, 403)
+      assert.strictEqual(denied.json().code, 'FST_OPENID_ACCESS_DENIED')
+      assert.ok(denied.json().message.includes('User denied'))
+      const other = await callback(
+        'error=temporarily_unavailable&state=test-state'
+      )
+      assert.strictEqual(other.statusCode, 400)
+      assert.strictEqual(other.json().code, 'FST_OPENID_AUTHORIZATION')
+    })
+
+    it('should validate the state of error responses', async () => {
+      const response = await callback('error=access_denied&state=other-state')
+      assert.notStrictEqual(response.json().code, 'FST_OPENID_ACCESS_DENIED')
+    })
+
+    it('should pass error responses to onError', async () => {
+      let received: OpenIDAuthorizationErrorResponse | undefined
+      const response = await callback(
+        'error=login_required&error_uri=https%3A%2F%2Fidp.example.com%2Fhelp&state=test-state',
+        (_request, reply, error) => {
+          received = error
+          return reply.redirect('/login?prompt=login')
+        }
+      )
+      assert.strictEqual(response.statusCode, 302)
+      assert.strictEqual(response.headers.location, '/login?prompt=login')
+      assert.ok(received instanceof OpenIDLoginRequiredError)
+      assert.strictEqual(received.error, 'login_required')
+      assert.strictEqual(received.error_uri, 'https://idp.example.com/help')
+      assert.strictEqual(received.state, 'test-state')
+      assert.strictEqual(received.statusCode, 401)
+    })
+  })
+
+  describe('silent login', () => {
+    it('should request prompt=none and record a silent login', async () => {
+      const session = createTestSession()
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/login/silent',
+        openIDSilentLoginHandlerFactory(config, {
+          parameters: { prompt: 'login' },
+          session
+        })
+      )
+      await fastify.ready()
+      const response = await fastify.inject({
+        method: 'GET',
+        url: '/login/silent'
+      })
+      const location = new URL(response.headers.location as string)
+      assert.strictEqual(location.searchParams.get('prompt'), 'none')
+      assert.strictEqual((await getTestChecks(session))?.silent, true)
+      await fastify.close()
+    })
+
+    const callback = async (query: string) => {
+      const results: OpenIDSilentLoginResult[] = []
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/callback',
+        openIDLoginHandlerFactory(config, {
+          parameters: { redirect_uri: 'http://localhost:8080/callback' },
+          callbackUrl: 'redirect_uri',
+          session: createTestSession({
+            'test-state': {
+              state: 'test-state',
+              nonce: 'test-nonce',
+              silent: true
+            }
+          }),
+          silent: {
+            callback: (_request, reply, result) => {
+              results.push(result)
+              return reply.send({ authenticated: result.authenticated })
+            }
+          }
+        })
+      )
+      await fastify.ready()
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/callback?${query}&state=test-state&iss=${encodeURIComponent(provider.issuer)}`
+      })
+      await fastify.close()
+      return { response, results }
+    }
+
+    it('should report interaction errors to the silent callback', async () => {
+      for (const error of [
+        'login_required',
+        'interaction_required',
+        'consent_required'
+      ]) {
+        const { response, results } = await callback(`error=${error}`)
+        assert.deepStrictEqual(response.json(), { authenticated: false })
+        const [result] = results
+        assert.ok(result.authenticated === false)
+        assert.strictEqual(result.error.error, error)
+      }
+      const { response } = await callback('error=access_denied')
+      assert.strictEqual(response.json().code, 'FST_OPENID_ACCESS_DENIED')
+    })
+
+    it('should report successful silent logins', async () => {
+      const restore = respondToTokenRequests(
+        provider,
+        await createTokenSet({
+          issuer: provider.issuer,
+          clientId: 'test-client',
+          nonce: 'test-nonce'
+        })
+      )
+      try {
+        const { response, results } = await callback('code=test-code')
+        assert.deepStrictEqual(response.json(), { authenticated: true })
+        const [result] = results
+        assert.ok(result.authenticated === true)
+        assert.ok(result.tokenset.access_token)
+      } finally {
+        restore()
+      }
+    })
+  })
+
   describe('error handling', () => {
     it('should export SessionKeyError', () => {
       assert.ok(SessionKeyError)
@@ -1,12 +1,27 @@
 import assert from 'node:assert'
 import { after, before, describe, it } from 'node:test'
-import type { Configuration } from 'openid-client'
-import { openIDLogoutHandlerFactory } from '../src/logout.js'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import { errors } from 'jose'
+import type { Next, ParameterizedContext } from 'koa'
+import bodyParser from 'koa-bodyparser'
+import { allowInsecureRequests, Configuration } from 'openid-client'
+import {
+  OpenIDFrontchannelLogoutError,
+  OpenIDLogoutStateError,
+  OpenIDLogoutTokenError,
+  openIDBackchannelLogoutHandlerFactory,
+  openIDFrontchannelLogoutHandlerFactory,
+  openIDLogoutHandlerFactory
+} from '../src/logout.js'
 import { getTestKeys } from './fixtures/keys.ts'
 import { createTestProvider, type TestProvider } from './fixtures/provider.ts'
-import { createTokenSet } from './fixtures/tokens.ts'
+import { createLogoutToken, createTokenSet } from './fixtures/tokens.ts'
 import { createTestConfig } from './helpers/config.ts'
-import { createTestFastify } from './helpers/fastify.ts'
+import {
+  addFormBodyParser,
+  createTestFastify,
+  createTestSession
+} from './helpers/fastify.ts'
 
 describe('openIDLogoutHandlerFactory', () => {
   let provider: TestProvider
@@ -243,4 +258,502 @@ describe('openIDLogoutHandlerFactory', () => {
       await fastify.close()
     })
   })
+  describe('token revocation', () => {
+    const captureRevocations = (status = 200) => {
+      const revocations: Record<string, string>[] = []
+      const parser = bodyParser()
+      const capture = async (ctx: ParameterizedContext, next: Next) => {
+        if (ctx.path !== '/token/revocation') {
+          return next()
+        }
+        revocations.push(ctx.request.body as Record<string, string>)
+        ctx.status = status
+        ctx.body = status === 200 ? '' : { error: 'temporarily_unavailable' }
+      }
+      provider.testMiddleware.add(parser)
+      provider.testMiddleware.add(capture)
+      return {
+        revocations,
+        remove: () => {
+          provider.testMiddleware.remove(capture)
+          provider.testMiddleware.remove(parser)
+        }
+      }
+    }
+
+    const createLocalConfig = () => {
+      const { end_session_endpoint: _, ...metadata } = config.serverMetadata()
+      const local = new Configuration(metadata, 'test-client', 'test-secret')
+      allowInsecureRequests(local)
+      return local
+    }
+
+    it('should revoke tokens before redirecting to the end session endpoint', async () => {
+      const tokenset = await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client'
+      })
+      const { revocations, remove } = captureRevocations()
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/logout',
+        openIDLogoutHandlerFactory(config, {
+          revoke: ['refresh_token', 'access_token'],
+          read: () => tokenset
+        })
+      )
+      await fastify.ready()
+      try {
+        const response = await fastify.inject({ method: 'GET', url: '/logout' })
+        assert.strictEqual(response.statusCode, 302)
+        assert.ok(response.headers.location?.startsWith(provider.issuer))
+      } finally {
+        remove()
+        await fastify.close()
+      }
+      assert.deepStrictEqual(
+        revocations.map(({ token, token_type_hint }) => ({
+          token,
+          token_type_hint
+        })),
+        [
+          {
+            token: tokenset.refresh_token,
+            token_type_hint: 'refresh_token'
+          },
+          { token: tokenset.access_token, token_type_hint: 'access_token' }
+        ]
+      )
+    })
+
+    it('should not revoke tokens by default', async () => {
+      const tokenset = await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client'
+      })
+      const { revocations, remove } = captureRevocations()
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/logout',
+        openIDLogoutHandlerFactory(config, { read: () => tokenset })
+      )
+      await fastify.ready()
+      try {
+        await fastify.inject({ method: 'GET', url: '/logout' })
+      } finally {
+        remove()
+        await fastify.close()
+      }
+      assert.strictEqual(revocations.length, 0)
+    })
+
+    it('should log out when revocation fails', async () => {
+      const tokenset = await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client'
+      })
+      const { revocations, remove } = captureRevocations(503)
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/logout',
+        openIDLogoutHandlerFactory(config, {
+          revoke: ['refresh_token'],
+          read: () => tokenset
+        })
+      )
+      await fastify.ready()
+      try {
+        const response = await fastify.inject({ method: 'GET', url: '/logout' })
+        assert.strictEqual(response.statusCode, 302)
+      } finally {
+        remove()
+        await fastify.close()
+      }
+      assert.strictEqual(revocations.length, 1)
+    })
+
+    it('should fall back to a local logout without end session endpoint', async () => {
+      const tokenset = await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client'
+      })
+      const { revocations, remove } = captureRevocations()
+      let written: unknown
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/logout',
+        openIDLogoutHandlerFactory(createLocalConfig(), {
+          revoke: ['refresh_token'],
+          read: () => tokenset,
+          write: async (_request, reply, tokens) => {
+            written = tokens
+            return reply.send({ loggedOut: true })
+          }
+        })
+      )
+      await fastify.ready()
+      try {
+        const response = await fastify.inject({ method: 'GET', url: '/logout' })
+        assert.strictEqual(response.statusCode, 200)
+        assert.deepStrictEqual(response.json(), { loggedOut: true })
+      } finally {
+        remove()
+        await fastify.close()
+      }
+      assert.strictEqual(written, tokenset)
+      assert.strictEqual(revocations.length, 1)
+    })
+
+    it('should redirect to post_logout_redirect_uri on a local logout', async () => {
+      const tokenset = await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client'
+      })
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/logout',
+        openIDLogoutHandlerFactory(createLocalConfig(), {
+          parameters: {
+            post_logout_redirect_uri: 'http://localhost:8080/logout/callback'
+          },
+          read: () => tokenset
+        })
+      )
+      await fastify.ready()
+      const response = await fastify.inject({ method: 'GET', url: '/logout' })
+      assert.strictEqual(response.statusCode, 302)
+      assert.strictEqual(
+        response.headers.location,
+        'http://localhost:8080/logout/callback'
+      )
+      await fastify.close()
+    })
+  })
+
+  describe('logout state', () => {
+    const createStateFastify = async (
+      configuration: Configuration = config
+    ) => {
+      const tokenset = await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client'
+      })
+      const session = createTestSession<string>()
+      const written: unknown[] = []
+      const fastify = await createTestFastify()
+      const handler = openIDLogoutHandlerFactory(configuration, {
+        parameters: {
+          post_logout_redirect_uri: 'http://localhost:8080/logout/callback'
+        },
+        session,
+        read: () => tokenset,
+        write: async (_request, _reply, tokens) => {
+          written.push(tokens)
+        }
+      })
+      fastify.get('/logout', handler)
+      fastify.get('/logout/callback', { preHandler: handler }, () => ({
+        loggedOut: true
+      }))
+      await fastify.ready()
+      return { fastify, session, written }
+    }
+
+    it('should send a state and accept the callback returning it', async () => {
+      const { fastify, session, written } = await createStateFastify()
+      const response = await fastify.inject({ method: 'GET', url: '/logout' })
+      const state = new URL(
+        response.headers.location as string
+      ).searchParams.get('state')
+      assert.ok(state)
+      assert.strictEqual(
+        await session.get({} as FastifyRequest, {} as FastifyReply),
+        state
+      )
+      const callback = await fastify.inject({
+        method: 'GET',
+        url: `/logout/callback?state=${state}`
+      })
+      assert.strictEqual(callback.statusCode, 200)
+      assert.strictEqual(written.length, 1)
+      assert.strictEqual(
+        await session.get({} as FastifyRequest, {} as FastifyReply),
+        undefined
+      )
+      await fastify.close()
+    })
+
+    it('should reject callbacks with a missing or mismatched state', async () => {
+      const { fastify, written } = await createStateFastify()
+      const response = await fastify.inject({ method: 'GET', url: '/logout' })
+      const state = new URL(
+        response.headers.location as string
+      ).searchParams.get('state')
+      const mismatch = await fastify.inject({
+        method: 'GET',
+        url: '/logout/callback?state=forged'
+      })
+      assert.strictEqual(mismatch.statusCode, 400)
+      assert.strictEqual(mismatch.json().code, 'FST_OPENID_LOGOUT_STATE')
+      // The state was consumed by the rejected callback
+      const replay = await fastify.inject({
+        method: 'GET',
+        url: `/logout/callback?state=${state}`
+      })
+      assert.strictEqual(replay.statusCode, 400)
+      const missing = await fastify.inject({
+        method: 'GET',
+        url: '/logout/callback'
+      })
+      assert.strictEqual(missing.statusCode, 400)
+      assert.match(missing.json().message, /missing state parameter/)
+      assert.strictEqual(written.length, 0)
+      await fastify.close()
+    })
+
+    it('should add the state to a local logout redirect', async () => {
+      const { end_session_endpoint: _, ...metadata } = config.serverMetadata()
+      const local = new Configuration(metadata, 'test-client', 'test-secret')
+      const { fastify, written } = await createStateFastify(local)
+      const response = await fastify.inject({ method: 'GET', url: '/logout' })
+      const location = new URL(response.headers.location as string)
+      assert.strictEqual(location.pathname, '/logout/callback')
+      const callback = await fastify.inject({
+        method: 'GET',
+        url: `${location.pathname}${location.search}`
+      })
+      assert.strictEqual(callback.statusCode, 200)
+      assert.strictEqual(written.length, 1)
+      await fastify.close()
+    })
+
+    it('should export OpenIDLogoutStateError', () => {
+      const error = new OpenIDLogoutStateError('test')
+      assert.strictEqual(error.code, 'FST_OPENID_LOGOUT_STATE')
+      assert.strictEqual(error.statusCode, 400)
+    })
+  })
+
+  describe('backchannel logout', () => {
+    const postLogoutToken = async (
+      logoutToken: string,
+      logout: Parameters<
+        typeof openIDBackchannelLogoutHandlerFactory
+      >[1]['logout'] = () => {},
+      verify?: Parameters<
+        typeof openIDBackchannelLogoutHandlerFactory
+      >[1]['verify']
+    ) => {
+      const keys = await getTestKeys()
+      const fastify = addFormBodyParser(await createTestFastify())
+      const handler = openIDBackchannelLogoutHandlerFactory(config, {
+        verify: verify ?? { key: keys.publicKey },
+        logout
+      })
+      fastify.post('/backchannel-logout', handler)
+      await fastify.ready()
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/backchannel-logout',
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        payload: new URLSearchParams({ logout_token: logoutToken }).toString()
+      })
+      await fastify.close()
+      return response
+    }
+
+    it('should call logout with verified claims', async () => {
+      const logoutToken = await createLogoutToken({
+        issuer: provider.issuer,
+        clientId: 'test-client',
+        sid: 'test-sid'
+      })
+      let receivedClaims: { sid?: string; sub?: string } | undefined
+      const response = await postLogoutToken(
+        logoutToken,
+        (_request, _reply, claims) => {
+          receivedClaims = claims
+        }
+      )
+      assert.strictEqual(response.statusCode, 200)
+      assert.strictEqual(response.headers['cache-control'], 'no-store')
+      assert.strictEqual(receivedClaims?.sid, 'test-sid')
+      assert.strictEqual(receivedClaims?.sub, 'test-user')
+    })
+
+    it('should reject a missing logout_token', async () => {
+      const response = await postLogoutToken('')
+      assert.strictEqual(response.statusCode, 400)
+      assert.strictEqual(
+        JSON.parse(response.body).code,
+        'FST_OPENID_LOGOUT_TOKEN'
+      )
+    })
+
+    it('should reject a logout_token with a nonce', async () => {
+      const logoutToken = await createLogoutToken({
+        issuer: provider.issuer,
+        clientId: 'test-client',
+        nonce: 'test-nonce'
+      })
+      const response = await postLogoutToken(logoutToken)
+      assert.strictEqual(response.statusCode, 400)
+      assert.match(response.body, /nonce claim is prohibited/)
+    })
+
+    it('should reject a logout_token without the logout event', async () => {
+      const logoutToken = await createLogoutToken({
+        issuer: provider.issuer,
+        clientId: 'test-client',
+        events: {}
+      })
+      const response = await postLogoutToken(logoutToken)
+      assert.strictEqual(response.statusCode, 400)
+      assert.match(response.body, /events claim/)
+    })
+
+    it('should reject a null logout event', async () => {
+      const logoutToken = await createLogoutToken({
+        issuer: provider.issuer,
+        clientId: 'test-client',
+        events: { 'http://schemas.openid.net/event/backchannel-logout': null }
+      })
+      const response = await postLogoutToken(logoutToken)
+      assert.strictEqual(response.statusCode, 400)
+      assert.match(response.body, /events claim/)
+    })
+
+    it('should rethrow errors not caused by the logout_token', async () => {
+      const logoutToken = await createLogoutToken({
+        issuer: provider.issuer,
+        clientId: 'test-client'
+      })
+      const response = await postLogoutToken(logoutToken, () => {}, {
+        key: async () => {
+          throw new errors.JWKSTimeout()
+        }
+      })
+      assert.strictEqual(response.statusCode, 500)
+      assert.strictEqual(response.json().code, 'ERR_JWKS_TIMEOUT')
+    })
+
+    it('should reject a logout_token for another audience', async () => {
+      const logoutToken = await createLogoutToken({
+        issuer: provider.issuer,
+        clientId: 'other-client'
+      })
+      const response = await postLogoutToken(logoutToken)
+      assert.strictEqual(response.statusCode, 400)
+      assert.match(response.body, /aud/)
+    })
+
+    it('should reject a replayed logout_token', async () => {
+      const keys = await getTestKeys()
+      const logoutToken = await createLogoutToken({
+        issuer: provider.issuer,
+        clientId: 'test-client'
+      })
+      let logoutCalls = 0
+      const fastify = addFormBodyParser(await createTestFastify())
+      const handler = openIDBackchannelLogoutHandlerFactory(config, {
+        verify: { key: keys.publicKey },
+        logout: () => {
+          logoutCalls++
+        }
+      })
+      fastify.post('/backchannel-logout', handler)
+      await fastify.ready()
+      const inject = () =>
+        fastify.inject({
+          method: 'POST',
+          url: '/backchannel-logout',
+          headers: { 'content-type': 'application/x-www-form-urlencoded' },
+          payload: new URLSearchParams({
+            logout_token: logoutToken
+          }).toString()
+        })
+      assert.strictEqual((await inject()).statusCode, 200)
+      const replayed = await inject()
+      assert.strictEqual(replayed.statusCode, 400)
+      assert.match(replayed.body, /jti/)
+      assert.strictEqual(logoutCalls, 1)
+      await fastify.close()
+    })
+
+    it('should export OpenIDLogoutTokenError', () => {
+      const error = new OpenIDLogoutTokenError('test')
+      assert.strictEqual(error.code, 'FST_OPENID_LOGOUT_TOKEN')
+      assert.strictEqual(error.statusCode, 400)
+    })
+  })
+  describe('frontchannel logout', () => {
+    const requestFrontchannelLogout = async (query: string) => {
+      const tokenset = await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client',
+        sid: 'test-sid'
+      })
+      let writtenTokenset: unknown
+      const fastify = await createTestFastify()
+      const handler = openIDFrontchannelLogoutHandlerFactory(config, {
+        read: () => tokenset,
+        write: (_request, _reply, tokens) => {
+          writtenTokenset = tokens
+        }
+      })
+      fastify.get('/frontchannel-logout', handler)
+      await fastify.ready()
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/frontchannel-logout${query}`
+      })
+      await fastify.close()
+      return { response, writtenTokenset }
+    }
+
+    it('should clear tokens when iss and sid match the session', async () => {
+      const { response, writtenTokenset } = await requestFrontchannelLogout(
+        `?iss=${encodeURIComponent(provider.issuer)}&sid=test-sid`
+      )
+      assert.strictEqual(response.statusCode, 200)
+      assert.strictEqual(
+        response.headers['cache-control'],
+        'no-cache, no-store'
+      )
+      assert.strictEqual(response.headers.pragma, 'no-cache')
+      assert.deepStrictEqual(writtenTokenset, {})
+    })
+
+    it('should clear tokens without iss and sid', async () => {
+      const { response, writtenTokenset } = await requestFrontchannelLogout('')
+      assert.strictEqual(response.statusCode, 200)
+      assert.deepStrictEqual(writtenTokenset, {})
+    })
+
+    it('should reject a mismatched iss', async () => {
+      const { response, writtenTokenset } = await requestFrontchannelLogout(
+        '?iss=http%3A%2F%2Fother-issuer&sid=test-sid'
+      )
+      assert.strictEqual(response.statusCode, 400)
+      assert.strictEqual(writtenTokenset, undefined)
+    })
+
+    it('should reject a mismatched sid', async () => {
+      const { response, writtenTokenset } = await requestFrontchannelLogout(
+        `?iss=${encodeURIComponent(provider.issuer)}&sid=other-sid`
+      )
+      assert.strictEqual(response.statusCode, 400)
+      assert.strictEqual(
+        JSON.parse(response.body).code,
+        'FST_OPENID_FRONTCHANNEL_LOGOUT'
+      )
+      assert.strictEqual(writtenTokenset, undefined)
+    })
+
+    it('should export OpenIDFrontchannelLogoutError', () => {
+      const error = new OpenIDFrontchannelLogoutError('sid')
+      assert.strictEqual(error.code, 'FST_OPENID_FRONTCHANNEL_LOGOUT')
+      assert.strictEqual(error.statusCode, 400)
+    })
+  })
 })
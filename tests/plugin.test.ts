@@ -1,7 +1,7 @@
 import assert from 'node:assert'
 import { after, before, describe, it } from 'node:test'
 import Fastify from 'fastify'
-import type { Configuration } from 'openid-client'
+import { allowInsecureRequests, type Configuration } from 'openid-client'
 import plugin, {
   type OpenIDAuthHandlers,
   openIDAuthPlugin
@@ -65,6 +65,7 @@ describe('openIDAuthPlugin', () => {
     assert.ok(typeof handlers.verify === 'function')
     assert.ok(typeof handlers.refresh === 'function')
     assert.ok(typeof handlers.logout === 'function')
+    assert.ok(typeof handlers.frontchannelLogout === 'function')
     await fastify.close()
   })
 
@@ -165,4 +166,169 @@ describe('openIDAuthPlugin', () => {
     assert.strictEqual(logoutResponse.statusCode, 302)
     await fastify.close()
   })
+  it('should register routes when routes option is provided', async () => {
+    const keys = await getTestKeys()
+    const tokenset = await createTokenSet({
+      issuer: provider.issuer,
+      clientId: 'test-client'
+    })
+    const session = createTestSession()
+    const fastify = Fastify({ logger: false })
+    await fastify.register(plugin, {
+      decorator: 'openid',
+      config,
+      routes: { protect: { prefix: '/api' } },
+      login: {
+        session,
+        parameters: { redirect_uri: 'http://localhost:8080/oidc/callback' }
+      },
+      verify: {
+        key: keys.publicKey,
+        tokens: ['id_token'],
+        options: {
+          issuer: provider.issuer,
+          audience: 'test-client'
+        },
+        read: () => tokenset,
+        write: async (request, _reply, _tokens, verified) => {
+          ;(request as unknown as { sub?: string }).sub =
+            verified?.id_token?.payload.sub
+        }
+      },
+      refresh: {
+        read: () => tokenset
+      },
+      logout: {
+        read: () => tokenset
+      }
+    })
+    fastify.get('/api/me', async (request) => ({
+      sub: (request as unknown as { sub?: string }).sub
+    }))
+    await fastify.ready()
+    const loginResponse = await fastify.inject({ method: 'GET', url: '/login' })
+    assert.strictEqual(loginResponse.statusCode, 302)
+    const callbackResponse = await fastify.inject({
+      method: 'GET',
+      url: '/oidc/callback?code=test-code&state=test-state'
+    })
+    assert.notStrictEqual(callbackResponse.statusCode, 404)
+    const logoutResponse = await fastify.inject({
+      method: 'GET',
+      url: '/logout'
+    })
+    assert.strictEqual(logoutResponse.statusCode, 302)
+    const apiResponse = await fastify.inject({ method: 'GET', url: '/api/me' })
+    assert.deepStrictEqual(apiResponse.json(), { sub: 'test-user' })
+    await fastify.close()
+  })
+  it('should let verify handle anonymous requests to protected routes', async () => {
+    const keys = await getTestKeys()
+    const fastify = Fastify({ logger: false })
+    await fastify.register(plugin, {
+      decorator: 'openid',
+      config,
+      routes: { protect: { prefix: '/api' } },
+      login: { session: createTestSession() },
+      verify: {
+        key: keys.publicKey,
+        tokens: ['id_token'],
+        read: () => ({}),
+        write: async (_request, reply, _tokens, verified) => {
+          if (verified?.id_token === undefined) {
+            return reply.redirect('/login')
+          }
+        }
+      },
+      refresh: {
+        read: () => ({})
+      },
+      logout: {
+        read: () => ({})
+      }
+    })
+    fastify.get('/api/me', async () => ({ ok: true }))
+    await fastify.ready()
+    const response = await fastify.inject({ method: 'GET', url: '/api/me' })
+    assert.strictEqual(response.statusCode, 302)
+    assert.strictEqual(response.headers.location, '/login')
+    await fastify.close()
+  })
+  it('should support multiple providers', async () => {
+    const keys = await getTestKeys()
+    const tokenset = await createTokenSet({
+      issuer: provider.issuer,
+      clientId: 'test-client'
+    })
+    const session = createTestSession()
+    const fastify = Fastify({ logger: false })
+    await fastify.register(plugin, {
+      decorator: 'openid',
+      providers: { default: { config } },
+      routes: { login: { url: '/login/:provider' } },
+      login: { session },
+      verify: {
+        key: keys.publicKey,
+        tokens: ['id_token'],
+        read: () => tokenset
+      },
+      refresh: {
+        read: () => tokenset
+      },
+      logout: {
+        read: () => tokenset
+      }
+    })
+    await fastify.ready()
+    const loginResponse = await fastify.inject({
+      method: 'GET',
+      url: '/login/default'
+    })
+    assert.strictEqual(loginResponse.statusCode, 302)
+    assert.ok(loginResponse.headers.location?.startsWith(provider.issuer))
+    await fastify.close()
+  })
+
+  it('should discover lazily when discovery option is provided', async () => {
+    const keys = await getTestKeys()
+    const tokenset = await createTokenSet({
+      issuer: provider.issuer,
+      clientId: 'test-client'
+    })
+    const session = createTestSession()
+    const fastify = Fastify({ logger: false })
+    await fastify.register(plugin, {
+      decorator: 'openid',
+      discovery: {
+        issuer: provider.issuer,
+        clientId: 'test-client',
+        metadata: {
+          client_secret: 'test-secret',
+          redirect_uri: 'http://localhost:3000/callback'
+        },
+        options: { execute: [allowInsecureRequests] }
+      },
+      routes: {},
+      login: { session },
+      verify: {
+        key: keys.publicKey,
+        tokens: ['id_token'],
+        read: () => tokenset
+      },
+      refresh: {
+        read: () => tokenset
+      },
+      logout: {
+        read: () => tokenset
+      }
+    })
+    await fastify.ready()
+    const loginResponse = await fastify.inject({
+      method: 'GET',
+      url: '/login'
+    })
+    assert.strictEqual(loginResponse.statusCode, 302)
+    assert.ok(loginResponse.headers.location?.startsWith(provider.issuer))
+    await fastify.close()
+  })
 })
@@ -0,0 +1,229 @@
+import assert from 'node:assert'
+import { after, before, describe, it } from 'node:test'
+import type { Configuration } from 'openid-client'
+import {
+  OpenIDProviderError,
+  openIDProvidersHandlersFactory,
+  resolveTokensetIssuer
+} from '../src/providers.ts'
+import { getTestKeys } from './fixtures/keys.ts'
+import { createTestProvider, type TestProvider } from './fixtures/provider.ts'
+import { createTokenSet } from './fixtures/tokens.ts'
+import { createTestConfig } from './helpers/config.ts'
+import {
+  createTestFastify,
+  createTestSession,
+  getTestChecks
+} from './helpers/fastify.ts'
+
+describe('openIDProvidersHandlersFactory', () => {
+  let corporate: TestProvider
+  let partner: TestProvider
+  let corporateConfig: Configuration
+  let partnerConfig: Configuration
+
+  before(async () => {
+    corporate = await createTestProvider({ port: 3005 })
+    partner = await createTestProvider({ port: 3006 })
+    corporateConfig = await createTestConfig({
+      issuer: corporate.issuer,
+      clientId: 'test-client'
+    })
+    partnerConfig = await createTestConfig({
+      issuer: partner.issuer,
+      clientId: 'test-client'
+    })
+  })
+
+  after(async () => {
+    await corporate.stop()
+    await partner.stop()
+  })
+
+  const createHandlers = async (
+    tokenset: Awaited<ReturnType<typeof createTokenSet>> | object = {}
+  ) => {
+    const keys = await getTestKeys()
+    const session = createTestSession()
+    const verified: string[] = []
+    const handlers = openIDProvidersHandlersFactory(
+      {
+        corporate: { config: corporateConfig },
+        partner: { config: partnerConfig }
+      },
+      {
+        login: { session },
+        verify: {
+          key: keys.publicKey,
+          tokens: ['id_token'],
+          read: () => tokenset,
+          write: (_request, _reply, _tokens, result) => {
+            verified.push(result?.id_token?.payload.iss as string)
+          }
+        },
+        refresh: { read: () => tokenset },
+        logout: { read: () => tokenset }
+      }
+    )
+    return { handlers, session, verified }
+  }
+
+  it('should select the login provider from the query', async () => {
+    const { handlers, session } = await createHandlers()
+    const fastify = await createTestFastify()
+    fastify.get('/login', handlers.login)
+    await fastify.ready()
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/login?provider=partner'
+    })
+    assert.strictEqual(response.statusCode, 302)
+    assert.ok(response.headers.location?.startsWith(partner.issuer))
+    const checks = await getTestChecks(session)
+    assert.strictEqual(checks?.issuer, partner.issuer)
+    await fastify.close()
+  })
+
+  it('should select the login provider from a path parameter', async () => {
+    const { handlers } = await createHandlers()
+    const fastify = await createTestFastify()
+    fastify.get('/login/:provider', handlers.login)
+    await fastify.ready()
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/login/corporate'
+    })
+    assert.strictEqual(response.statusCode, 302)
+    assert.ok(response.headers.location?.startsWith(corporate.issuer))
+    await fastify.close()
+  })
+
+  it('should reject unknown providers', async () => {
+    const { handlers } = await createHandlers()
+    const fastify = await createTestFastify()
+    fastify.get('/login', handlers.login)
+    await fastify.ready()
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/login?provider=unknown'
+    })
+    assert.strictEqual(response.statusCode, 400)
+    assert.strictEqual(response.json().code, 'FST_OPENID_PROVIDER')
+    await fastify.close()
+  })
+
+  it('should reject callbacks without a recorded issuer', async () => {
+    const { handlers } = await createHandlers()
+    const fastify = await createTestFastify()
+    fastify.get('/callback', handlers.login)
+    await fastify.ready()
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/callback?code=test-code&state=test-state'
+    })
+    assert.strictEqual(response.statusCode, 400)
+    assert.strictEqual(response.json().code, 'FST_OPENID_PROVIDER')
+    await fastify.close()
+  })
+
+  it('should route verify to the provider that issued the tokens', async () => {
+    const tokenset = await createTokenSet({
+      issuer: partner.issuer,
+      clientId: 'test-client'
+    })
+    const { handlers, verified } = await createHandlers(tokenset)
+    const fastify = await createTestFastify()
+    fastify.get('/verify', handlers.verify)
+    await fastify.ready()
+    await fastify.inject({ method: 'GET', url: '/verify' })
+    assert.deepStrictEqual(verified, [partner.issuer])
+    await fastify.close()
+  })
+
+  it('should skip providers whose configuration cannot be resolved', async () => {
+    const tokenset = await createTokenSet({
+      issuer: partner.issuer,
+      clientId: 'test-client'
+    })
+    const keys = await getTestKeys()
+    const verified: string[] = []
+    const handlers = openIDProvidersHandlersFactory(
+      {
+        unavailable: {
+          config: async () => {
+            throw new Error('discovery failed')
+          }
+        },
+        partner: { config: partnerConfig }
+      },
+      {
+        login: { session: createTestSession() },
+        verify: {
+          key: keys.publicKey,
+          tokens: ['id_token'],
+          read: () => tokenset,
+          write: (_request, _reply, _tokens, result) => {
+            verified.push(result?.id_token?.payload.iss as string)
+          }
+        },
+        refresh: { read: () => tokenset },
+        logout: { read: () => tokenset }
+      }
+    )
+    const fastify = await createTestFastify()
+    fastify.get('/verify', handlers.verify)
+    await fastify.ready()
+    const response = await fastify.inject({ method: 'GET', url: '/verify' })
+    assert.strictEqual(response.statusCode, 200)
+    assert.deepStrictEqual(verified, [partner.issuer])
+    await fastify.close()
+  })
+
+  it('should handle requests without tokens like a single provider', async () => {
+    const { handlers, verified } = await createHandlers()
+    const fastify = await createTestFastify()
+    fastify.get('/verify', handlers.verify)
+    await fastify.ready()
+    const response = await fastify.inject({ method: 'GET', url: '/verify' })
+    assert.strictEqual(response.statusCode, 200)
+    assert.deepStrictEqual(verified, [undefined])
+    await fastify.close()
+  })
+
+  it('should route logout to the end session endpoint of the issuer', async () => {
+    const tokenset = await createTokenSet({
+      issuer: corporate.issuer,
+      clientId: 'test-client'
+    })
+    const { handlers } = await createHandlers(tokenset)
+    const fastify = await createTestFastify()
+    fastify.get('/logout', handlers.logout)
+    await fastify.ready()
+    const response = await fastify.inject({ method: 'GET', url: '/logout' })
+    assert.strictEqual(response.statusCode, 302)
+    assert.ok(response.headers.location?.startsWith(corporate.issuer))
+    await fastify.close()
+  })
+
+  it('should resolve the issuer from id_token or access_token', async () => {
+    const tokenset = await createTokenSet({
+      issuer: partner.issuer,
+      clientId: 'test-client'
+    })
+    assert.strictEqual(resolveTokensetIssuer(tokenset), partner.issuer)
+    assert.strictEqual(
+      resolveTokensetIssuer({ access_token: tokenset.access_token }),
+      partner.issuer
+    )
+    assert.strictEqual(
+      resolveTokensetIssuer({ access_token: 'opaque' }),
+      undefined
+    )
+  })
+
+  it('should export OpenIDProviderError', () => {
+    const error = new OpenIDProviderError('test')
+    assert.strictEqual(error.code, 'FST_OPENID_PROVIDER')
+    assert.strictEqual(error.statusCode, 400)
+  })
+})
@@ -3,9 +3,17 @@ import { after, before, describe, it } from 'node:test'
 import type { Next, ParameterizedContext } from 'koa'
 import bodyParser from 'koa-bodyparser'
 import type { Configuration } from 'openid-client'
-import { openIDRefreshHandlerFactory } from '../src/refresh.js'
+import {
+  OpenIDRefreshFailedError,
+  type OpenIDRefreshHandlerOptions,
+  openIDRefreshHandlerFactory
+} from '../src/refresh.js'
 import { getTestKeys } from './fixtures/keys.ts'
-import { createTestProvider, type TestProvider } from './fixtures/provider.ts'
+import {
+  createTestProvider,
+  respondToTokenRequests,
+  type TestProvider
+} from './fixtures/provider.ts'
 import { createExpiredTokenSet, createTokenSet } from './fixtures/tokens.ts'
 import { createTestConfig } from './helpers/config.ts'
 import { createTestFastify } from './helpers/fastify.ts'
@@ -63,10 +71,9 @@ describe('openIDRefreshHandlerFactory', () => {
     fastify.get('/refresh', handler)
     await fastify.ready()
     const response = await fastify.inject({ method: 'GET', url: '/refresh' })
-    assert.ok(
-      response.statusCode === 400 || response.statusCode === 500,
-      `Expected 400 or 500, got ${response.statusCode}`
-    )
+    // The provider rejects the test refresh token
+    assert.strictEqual(response.statusCode, 401)
+    assert.strictEqual(response.json().code, 'FST_OPENID_REFRESH_FAILED')
     await fastify.close()
   })
 
@@ -86,10 +93,9 @@ describe('openIDRefreshHandlerFactory', () => {
     fastify.get('/refresh', handler)
     await fastify.ready()
     const response = await fastify.inject({ method: 'GET', url: '/refresh' })
-    assert.ok(
-      response.statusCode === 400 || response.statusCode === 500,
-      `Expected 400 or 500, got ${response.statusCode}`
-    )
+    // The provider rejects the test refresh token
+    assert.strictEqual(response.statusCode, 401)
+    assert.strictEqual(response.json().code, 'FST_OPENID_REFRESH_FAILED')
     await fastify.close()
   })
 
@@ -187,4 +193,308 @@ describe('openIDRefreshHandlerFactory', () => {
     }
     await fastify.close()
   })
+
+  describe('expiry', () => {
+    const refresh = async (
+      tokenset: object,
+      options: Partial<OpenIDRefreshHandlerOptions> = {}
+    ) => {
+      const written: Record<string, unknown>[] = []
+      const restore = respondToTokenRequests(provider, {
+        access_token: 'refreshed',
+        token_type: 'bearer',
+        expires_in: 300
+      })
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/refresh',
+        openIDRefreshHandlerFactory(config, {
+          read: () => tokenset,
+          write: (_request, _reply, tokens) => {
+            written.push(tokens as Record<string, unknown>)
+          },
+          ...options
+        })
+      )
+      try {
+        await fastify.ready()
+        await fastify.inject({ method: 'GET', url: '/refresh' })
+      } finally {
+        restore()
+        await fastify.close()
+      }
+      return written[0]
+    }
+
+    const expiringIn = (seconds: number) => ({
+      refresh_token: 'test-refresh-token',
+      expires_at: Math.floor(Date.now() / 1000) + seconds
+    })
+
+    it('should refresh ahead of expiry', async () => {
+      assert.strictEqual(await refresh(expiringIn(30)), undefined)
+      assert.ok(await refresh(expiringIn(30), { refreshAhead: 60 }))
+      assert.ok(await refresh(expiringIn(30), { clockTolerance: 60 }))
+    })
+
+    it('should keep tokens that were not reissued', async () => {
+      const tokens = await refresh({ ...expiringIn(-1), id_token: 'old-id' })
+      assert.strictEqual(tokens.access_token, 'refreshed')
+      assert.strictEqual(tokens.refresh_token, 'test-refresh-token')
+      assert.strictEqual(tokens.id_token, 'old-id')
+    })
+
+    it('should stamp expires_at on refreshed tokens', async () => {
+      const tokens = await refresh(expiringIn(-1))
+      const now = Math.floor(Date.now() / 1000)
+      assert.strictEqual(tokens.access_token, 'refreshed')
+      assert.ok(Math.abs((tokens.expires_at as number) - (now + 300)) <= 1)
+    })
+
+    it('should fall back to the access_token exp claim', async () => {
+      const { expires_at: _, ...tokenset } = await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client'
+      })
+      assert.ok(await refresh(tokenset))
+      assert.strictEqual(
+        await refresh(tokenset, { expiryFallback: true }),
+        undefined
+      )
+    })
+
+    it('should fall back to expires_in counted from the id_token iat', async () => {
+      const { id_token, refresh_token } = await createTokenSet({
+        issuer: provider.issuer,
+        clientId: 'test-client'
+      })
+      const tokenset = {
+        access_token: 'opaque',
+        id_token,
+        refresh_token,
+        expires_in: 120
+      }
+      assert.strictEqual(
+        await refresh(tokenset, { expiryFallback: true }),
+        undefined
+      )
+      assert.ok(
+        await refresh(tokenset, { expiryFallback: true, refreshAhead: 180 })
+      )
+    })
+  })
+
+  describe('concurrent refreshes', () => {
+    const countTokenRequests = () => {
+      let count = 0
+      const respond = async (
+        ctx: ParameterizedContext,
+        next: Next
+      ): Promise<void> => {
+        if (ctx.path !== '/token') {
+          return next()
+        }
+        count++
+        // Keep the grant pending while the other requests arrive
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        ctx.body = {
+          access_token: `refreshed-${count}`,
+          token_type: 'bearer',
+          expires_in: 300
+        }
+      }
+      provider.testMiddleware.add(respond)
+      return {
+        count: () => count,
+        restore: () => provider.testMiddleware.remove(respond)
+      }
+    }
+
+    const expired = {
+      refresh_token: 'test-refresh-token',
+      expires_at: Math.floor(Date.now() / 1000) - 1
+    }
+
+    const createRefreshFastify = async (
+      written: unknown[],
+      options: Partial<OpenIDRefreshHandlerOptions> = {}
+    ) => {
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/refresh',
+        openIDRefreshHandlerFactory(config, {
+          read: () => expired,
+          write: (_request, _reply, tokens) => {
+            written.push(tokens?.access_token)
+          },
+          ...options
+        })
+      )
+      await fastify.ready()
+      return fastify
+    }
+
+    it('should share one grant between concurrent requests', async () => {
+      const tokenRequests = countTokenRequests()
+      const written: unknown[] = []
+      const fastify = await createRefreshFastify(written)
+      try {
+        await Promise.all(
+          Array.from({ length: 5 }, () =>
+            fastify.inject({ method: 'GET', url: '/refresh' })
+          )
+        )
+      } finally {
+        tokenRequests.restore()
+        await fastify.close()
+      }
+      assert.strictEqual(tokenRequests.count(), 1)
+      assert.deepStrictEqual(written, Array(5).fill('refreshed-1'))
+    })
+
+    it('should reuse refreshed tokens for requests arriving afterwards', async () => {
+      const tokenRequests = countTokenRequests()
+      const written: unknown[] = []
+      const fastify = await createRefreshFastify(written)
+      const noGrace = await createRefreshFastify(written, { grace: 0 })
+      try {
+        // Requests sent before the rotated tokens were stored
+        await fastify.inject({ method: 'GET', url: '/refresh' })
+        await fastify.inject({ method: 'GET', url: '/refresh' })
+        assert.strictEqual(tokenRequests.count(), 1)
+        await noGrace.inject({ method: 'GET', url: '/refresh' })
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        await noGrace.inject({ method: 'GET', url: '/refresh' })
+      } finally {
+        tokenRequests.restore()
+        await fastify.close()
+        await noGrace.close()
+      }
+      assert.strictEqual(tokenRequests.count(), 3)
+      assert.deepStrictEqual(written, [
+        'refreshed-1',
+        'refreshed-1',
+        'refreshed-2',
+        'refreshed-3'
+      ])
+    })
+
+    it('should share one grant between instances holding the lock', async () => {
+      let held: Promise<void> = Promise.resolve()
+      const lock = {
+        acquire: async () => {
+          const previous = held
+          let release = () => {}
+          held = new Promise((resolve) => {
+            release = resolve
+          })
+          await previous
+          return release
+        }
+      }
+      const entries = new Map<string, object>()
+      const cache = {
+        get: (key: string) => entries.get(key),
+        set: (key: string, value: object) => {
+          entries.set(key, value)
+        },
+        delete: (key: string) => {
+          entries.delete(key)
+        }
+      }
+      const tokenRequests = countTokenRequests()
+      const written: unknown[] = []
+      const instances = [
+        await createRefreshFastify(written, { lock: { lock, cache } }),
+        await createRefreshFastify(written, { lock: { lock, cache } })
+      ]
+      try {
+        await Promise.all(
+          instances.map((fastify) =>
+            fastify.inject({ method: 'GET', url: '/refresh' })
+          )
+        )
+      } finally {
+        tokenRequests.restore()
+        await Promise.all(instances.map((fastify) => fastify.close()))
+      }
+      assert.strictEqual(tokenRequests.count(), 1)
+      assert.deepStrictEqual(written, ['refreshed-1', 'refreshed-1'])
+    })
+  })
+
+  describe('refresh failures', () => {
+    const refreshRejected = async (
+      options: Partial<OpenIDRefreshHandlerOptions> = {}
+    ) => {
+      const fastify = await createTestFastify()
+      fastify.get(
+        '/refresh',
+        openIDRefreshHandlerFactory(config, {
+          // The provider does not know this refresh token
+          read: () => ({ refresh_token: 'revoked-refresh-token' }),
+          ...options
+        })
+      )
+      await fastify.ready()
+      const response = await fastify.inject({ method: 'GET', url: '/refresh' })
+      await fastify.close()
+      return response
+    }
+
+    it('should throw OpenIDRefreshFailedError on invalid_grant', async () => {
+      const response = await refreshRejected()
+      assert.strictEqual(response.statusCode, 401)
+      assert.strictEqual(response.json().code, 'FST_OPENID_REFRESH_FAILED')
+    })
+
+    it('should pass refresh failures to onRefreshFailure', async () => {
+      let cleared = false
+      const write: OpenIDRefreshHandlerOptions['write'] = (
+        _request,
+        _reply,
+        tokenset
+      ) => {
+        cleared = tokenset === undefined
+      }
+      const response = await refreshRejected({
+        write,
+        onRefreshFailure(request, reply, error) {
+          assert.ok(error instanceof OpenIDRefreshFailedError)
+          assert.strictEqual(error.error, 'invalid_grant')
+          write.call(this, request, reply, undefined)
+          return reply.redirect('/login')
+        }
+      })
+      assert.strictEqual(response.statusCode, 302)
+      assert.strictEqual(response.headers.location, '/login')
+      assert.strictEqual(cleared, true)
+    })
+
+    it('should rethrow token endpoint errors other than invalid_grant', async () => {
+      const respond = async (
+        ctx: ParameterizedContext,
+        next: Next
+      ): Promise<void> => {
+        if (ctx.path !== '/token') {
+          return next()
+        }
+        ctx.status = 503
+        ctx.body = { error: 'temporarily_unavailable' }
+      }
+      provider.testMiddleware.add(respond)
+      let failed = false
+      try {
+        const response = await refreshRejected({
+          onRefreshFailure() {
+            failed = true
+          }
+        })
+        assert.strictEqual(response.statusCode, 500)
+      } finally {
+        provider.testMiddleware.remove(respond)
+      }
+      assert.strictEqual(failed, false)
+    })
+  })
 })
@@ -0,0 +1,224 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import type { FastifyInstance, RouteHandlerMethod } from 'fastify'
+import type { OpenIDAuthHandlers } from '../src/plugin.ts'
+import { openIDRegisterRoutes } from '../src/routes.ts'
+import { createTestFastify } from './helpers/fastify.ts'
+
+const createTestHandlers = (calls: string[]): OpenIDAuthHandlers => {
+  const handler =
+    (name: string): RouteHandlerMethod =>
+    async (_request, reply) => {
+      calls.push(name)
+      if (name === 'verify' || name === 'refresh') {
+        return
+      }
+      return reply.send({ handler: name })
+    }
+  return {
+    login: handler('login'),
+    silentLogin: handler('silentLogin'),
+    verify: handler('verify'),
+    refresh: handler('refresh'),
+    logout: handler('logout'),
+    frontchannelLogout: handler('frontchannelLogout')
+  }
+}
+
+const inject = async (fastify: FastifyInstance, url: string) =>
+  (await fastify.inject({ method: 'GET', url })).json()
+
+describe('openIDRegisterRoutes', () => {
+  it('should register the default routes', async () => {
+    const calls: string[] = []
+    const fastify = await createTestFastify()
+    openIDRegisterRoutes(fastify, createTestHandlers(calls), {})
+    await fastify.ready()
+    assert.deepStrictEqual(await inject(fastify, '/login'), {
+      handler: 'login'
+    })
+    assert.deepStrictEqual(await inject(fastify, '/login/callback'), {
+      handler: 'login'
+    })
+    assert.deepStrictEqual(await inject(fastify, '/logout'), {
+      handler: 'logout'
+    })
+    assert.deepStrictEqual(await inject(fastify, '/logout/callback'), {
+      handler: 'logout'
+    })
+    assert.deepStrictEqual(await inject(fastify, '/logout/frontchannel'), {
+      handler: 'frontchannelLogout'
+    })
+    await fastify.close()
+  })
+
+  it('should only register the silent login route when given', async () => {
+    const calls: string[] = []
+    const fastify = await createTestFastify()
+    openIDRegisterRoutes(fastify, createTestHandlers(calls), {
+      prefix: '/auth',
+      silentLogin: {}
+    })
+    await fastify.ready()
+    assert.deepStrictEqual(await inject(fastify, '/auth/login/silent'), {
+      handler: 'silentLogin'
+    })
+    await fastify.close()
+    const defaults = await createTestFastify()
+    openIDRegisterRoutes(defaults, createTestHandlers(calls), {})
+    await defaults.ready()
+    const response = await defaults.inject({
+      method: 'GET',
+      url: '/login/silent'
+    })
+    assert.strictEqual(response.statusCode, 404)
+    await defaults.close()
+  })
+
+  it('should accept POSTed form callbacks', async () => {
+    const calls: string[] = []
+    const fastify = await createTestFastify()
+    openIDRegisterRoutes(fastify, createTestHandlers(calls), {})
+    await fastify.ready()
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/login/callback',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      payload: 'code=test-code&state=test-state'
+    })
+    assert.deepStrictEqual(response.json(), { handler: 'login' })
+    await fastify.close()
+  })
+
+  it('should support prefixes, custom urls, methods and disabled routes', async () => {
+    const calls: string[] = []
+    const fastify = await createTestFastify()
+    openIDRegisterRoutes(fastify, createTestHandlers(calls), {
+      prefix: '/auth',
+      login: { url: '/signin', method: ['GET', 'POST'] },
+      frontchannelLogout: false
+    })
+    await fastify.ready()
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/auth/signin'
+    })
+    assert.deepStrictEqual(response.json(), { handler: 'login' })
+    assert.deepStrictEqual(await inject(fastify, '/auth/logout'), {
+      handler: 'logout'
+    })
+    const disabled = await fastify.inject({
+      method: 'GET',
+      url: '/auth/logout/frontchannel'
+    })
+    assert.strictEqual(disabled.statusCode, 404)
+    await fastify.close()
+  })
+
+  it('should use derived callback urls without prefix', async () => {
+    const calls: string[] = []
+    const fastify = await createTestFastify()
+    openIDRegisterRoutes(
+      fastify,
+      createTestHandlers(calls),
+      { prefix: '/auth' },
+      { callback: '/oidc/callback' }
+    )
+    await fastify.ready()
+    assert.deepStrictEqual(await inject(fastify, '/oidc/callback'), {
+      handler: 'login'
+    })
+    await fastify.close()
+  })
+
+  it('should run the auth handler before a custom route handler and hooks', async () => {
+    const calls: string[] = []
+    const fastify = await createTestFastify()
+    openIDRegisterRoutes(
+      fastify,
+      {
+        ...createTestHandlers(calls),
+        login: async () => {
+          calls.push('login')
+        }
+      },
+      {
+        callback: {
+          preHandler: async () => {
+            calls.push('preHandler')
+          },
+          handler: async () => {
+            calls.push('handler')
+            return { handler: 'custom' }
+          }
+        }
+      }
+    )
+    await fastify.ready()
+    assert.deepStrictEqual(await inject(fastify, '/login/callback'), {
+      handler: 'custom'
+    })
+    assert.deepStrictEqual(calls, ['login', 'preHandler', 'handler'])
+    await fastify.close()
+  })
+
+  describe('protect', () => {
+    it('should add refresh and verify preHandlers to matching routes', async () => {
+      const calls: string[] = []
+      const fastify = await createTestFastify()
+      openIDRegisterRoutes(fastify, createTestHandlers(calls), {
+        protect: { prefix: '/api' }
+      })
+      fastify.get('/api/data', async () => {
+        calls.push('handler')
+        return {}
+      })
+      fastify.get('/public', async () => {
+        calls.push('public')
+        return {}
+      })
+      fastify.get('/apidocs', async () => {
+        calls.push('apidocs')
+        return {}
+      })
+      await fastify.ready()
+      await inject(fastify, '/api/data')
+      assert.deepStrictEqual(calls, ['refresh', 'verify', 'handler'])
+      calls.length = 0
+      await inject(fastify, '/public')
+      assert.deepStrictEqual(calls, ['public'])
+      calls.length = 0
+      await inject(fastify, '/login')
+      assert.deepStrictEqual(calls, ['login'])
+      // Prefixes match whole path segments
+      calls.length = 0
+      await inject(fastify, '/apidocs')
+      assert.deepStrictEqual(calls, ['apidocs'])
+      await fastify.close()
+    })
+
+    it('should support a filter and disabling refresh', async () => {
+      const calls: string[] = []
+      const fastify = await createTestFastify()
+      openIDRegisterRoutes(fastify, createTestHandlers(calls), {
+        protect: {
+          refresh: false,
+          filter: (routeOptions) => routeOptions.config?.public !== true
+        }
+      })
+      fastify.get('/private', async () => {
+        calls.push('private')
+        return {}
+      })
+      fastify.get('/public', { config: { public: true } }, async () => {
+        calls.push('public')
+        return {}
+      })
+      await fastify.ready()
+      await inject(fastify, '/private')
+      await inject(fastify, '/public')
+      assert.deepStrictEqual(calls, ['verify', 'private', 'public'])
+      await fastify.close()
+    })
+  })
+})
@@ -0,0 +1,371 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import cookie from '@fastify/cookie'
+import type { FastifyInstance } from 'fastify'
+import {
+  type OpenIDTokenStore,
+  openIDCookieTokenStore,
+  openIDKeyValueTokenStore,
+  openIDMemoryStore,
+  openIDMemoryTokenStore,
+  openIDStoreOptionsFactory
+} from '../src/store.ts'
+import { createTestFastify } from './helpers/fastify.ts'
+
+const createStoreFastify = async (
+  store: OpenIDTokenStore
+): Promise<FastifyInstance> => {
+  const { read, write, clear, session, dpop, logout } =
+    openIDStoreOptionsFactory(store)
+  const fastify = await createTestFastify()
+  await fastify.register(cookie, { secret: 'test-cookie-secret' })
+  fastify.get('/write', async (request, reply) => {
+    await write.call(fastify, request, reply, {
+      access_token: 'test-access-token',
+      token_type: 'bearer'
+    })
+    return read.call(fastify, request, reply)
+  })
+  fastify.get('/read', (request, reply) => read.call(fastify, request, reply))
+  fastify.get('/clear', async (request, reply) => {
+    await write.call(fastify, request, reply)
+    return read.call(fastify, request, reply)
+  })
+  fastify.get('/session', async (request, reply) => {
+    await session.set(request, reply, { state: 'test-state' })
+    return (await session.get(request, reply)) ?? {}
+  })
+  fastify.get('/dpop', async (request, reply) => {
+    await dpop.set(request, reply, {
+      alg: 'ES256',
+      privateKey: { kty: 'EC' },
+      publicKey: { kty: 'EC' }
+    })
+    await write.call(fastify, request, reply, {
+      access_token: 'test-access-token',
+      token_type: 'bearer'
+    })
+    const stored = await dpop.get(request, reply)
+    await write.call(fastify, request, reply)
+    return { stored: stored?.alg, cleared: await dpop.get(request, reply) }
+  })
+  fastify.get('/dpop/clear', async (request, reply) => {
+    const tokenset = { access_token: 'test-access-token', token_type: 'bearer' }
+    const cleared: Record<string, unknown> = {}
+    for (const [name, clearTokens] of [
+      ['clear', () => clear.call(fastify, request, reply, tokenset)],
+      ['empty', () => write.call(fastify, request, reply, {})]
+    ] as const) {
+      await dpop.set(request, reply, {
+        alg: 'ES256',
+        privateKey: { kty: 'EC' },
+        publicKey: { kty: 'EC' }
+      })
+      await write.call(fastify, request, reply, tokenset)
+      await clearTokens()
+      cleared[name] = {
+        tokens: await read.call(fastify, request, reply),
+        dpop: await dpop.get(request, reply)
+      }
+    }
+    return cleared
+  })
+  fastify.get('/dpop/set', async (request, reply) => {
+    await dpop.set(request, reply, {
+      alg: 'ES256',
+      privateKey: { kty: 'EC' },
+      publicKey: { kty: 'EC' }
+    })
+    return {}
+  })
+  fastify.get('/dpop/get', async (request, reply) => ({
+    stored: (await dpop.get(request, reply))?.alg
+  }))
+  fastify.get('/logout/set', async (request, reply) => {
+    await logout.set(request, reply, 'test-state')
+    return {}
+  })
+  fastify.get('/logout/get', async (request, reply) => ({
+    stored: await logout.get(request, reply)
+  }))
+  fastify.get('/logout', async (request, reply) => {
+    await write.call(fastify, request, reply, {
+      access_token: 'test-access-token',
+      token_type: 'bearer'
+    })
+    await logout.set(request, reply, 'test-state')
+    const stored = await logout.get(request, reply)
+    await logout.set(request, reply, undefined)
+    return {
+      stored,
+      cleared: await logout.get(request, reply),
+      tokens: await read.call(fastify, request, reply)
+    }
+  })
+  await fastify.ready()
+  return fastify
+}
+
+const sessionCookie = (
+  response: Awaited<ReturnType<FastifyInstance['inject']>>,
+  name: string
+) => response.cookies.find((cookie) => cookie.name === name)
+
+describe('openIDMemoryStore', () => {
+  it('should get, set and delete values', async () => {
+    const store = openIDMemoryStore<string>()
+    await store.set('key', 'value')
+    assert.strictEqual(await store.get('key'), 'value')
+    await store.delete('key')
+    assert.strictEqual(await store.get('key'), undefined)
+  })
+
+  it('should evict the least recently used entry', async () => {
+    const store = openIDMemoryStore<string>({ max: 2 })
+    await store.set('a', 'a')
+    await store.set('b', 'b')
+    await store.get('a')
+    await store.set('c', 'c')
+    assert.strictEqual(await store.get('a'), 'a')
+    assert.strictEqual(await store.get('b'), undefined)
+    assert.strictEqual(await store.get('c'), 'c')
+  })
+
+  it('should expire entries after ttl', async () => {
+    const store = openIDMemoryStore<string>()
+    await store.set('key', 'value', -1)
+    assert.strictEqual(await store.get('key'), undefined)
+  })
+})
+
+describe('openIDStoreOptionsFactory', () => {
+  describe('with openIDMemoryTokenStore', () => {
+    it('should keep tokens server-side behind an opaque session id', async () => {
+      const fastify = await createStoreFastify(openIDMemoryTokenStore())
+      const written = await fastify.inject({ method: 'GET', url: '/write' })
+      assert.strictEqual(written.json().access_token, 'test-access-token')
+      const sid = sessionCookie(written, 'sid')
+      assert.ok(sid)
+      assert.ok(!sid.value.includes('test-access-token'))
+      const read = await fastify.inject({
+        method: 'GET',
+        url: '/read',
+        cookies: { sid: sid.value }
+      })
+      assert.strictEqual(read.json().access_token, 'test-access-token')
+      await fastify.close()
+    })
+
+    it('should clear the session when tokens are removed', async () => {
+      const fastify = await createStoreFastify(openIDMemoryTokenStore())
+      const written = await fastify.inject({ method: 'GET', url: '/write' })
+      const sid = sessionCookie(written, 'sid')?.value as string
+      const cleared = await fastify.inject({
+        method: 'GET',
+        url: '/clear',
+        cookies: { sid }
+      })
+      assert.deepStrictEqual(cleared.json(), {})
+      const read = await fastify.inject({
+        method: 'GET',
+        url: '/read',
+        cookies: { sid }
+      })
+      assert.deepStrictEqual(read.json(), {})
+      await fastify.close()
+    })
+
+    it('should store authorization checks in the session', async () => {
+      const fastify = await createStoreFastify(openIDMemoryTokenStore())
+      const response = await fastify.inject({ method: 'GET', url: '/session' })
+      assert.deepStrictEqual(response.json(), { state: 'test-state' })
+      assert.ok(sessionCookie(response, 'sid'))
+      await fastify.close()
+    })
+
+    it('should keep the DPoP key until tokens are removed', async () => {
+      const fastify = await createStoreFastify(openIDMemoryTokenStore())
+      const response = await fastify.inject({ method: 'GET', url: '/dpop' })
+      assert.deepStrictEqual(response.json(), { stored: 'ES256' })
+      await fastify.close()
+    })
+
+    it('should drop the tokens and the DPoP key on logout', async () => {
+      const fastify = await createStoreFastify(openIDMemoryTokenStore())
+      const response = await fastify.inject({
+        method: 'GET',
+        url: '/dpop/clear'
+      })
+      assert.deepStrictEqual(response.json(), {
+        clear: { tokens: {} },
+        empty: { tokens: {} }
+      })
+      await fastify.close()
+    })
+
+    it('should store the logout state next to the tokens', async () => {
+      const fastify = await createStoreFastify(openIDMemoryTokenStore())
+      const response = await fastify.inject({ method: 'GET', url: '/logout' })
+      const { stored, cleared, tokens } = response.json()
+      assert.strictEqual(stored, 'test-state')
+      assert.strictEqual(cleared, undefined)
+      assert.strictEqual(tokens.access_token, 'test-access-token')
+      await fastify.close()
+    })
+
+    it('should ignore tampered signed session ids', async () => {
+      const fastify = await createStoreFastify(
+        openIDMemoryTokenStore({ cookie: { options: { signed: true } } })
+      )
+      const written = await fastify.inject({ method: 'GET', url: '/write' })
+      const sid = sessionCookie(written, 'sid')?.value as string
+      const read = await fastify.inject({
+        method: 'GET',
+        url: '/read',
+        cookies: { sid }
+      })
+      assert.strictEqual(read.json().access_token, 'test-access-token')
+      const tampered = await fastify.inject({
+        method: 'GET',
+        url: '/read',
+        cookies: { sid: `${sid}x` }
+      })
+      assert.deepStrictEqual(tampered.json(), {})
+      await fastify.close()
+    })
+  })
+
+  describe('with openIDKeyValueTokenStore', () => {
+    it('should use the async key-value adapter', async () => {
+      const entries = new Map<string, unknown>()
+      const store = openIDKeyValueTokenStore({
+        store: {
+          get: async (key) => entries.get(key) as never,
+          set: async (key, value) => {
+            entries.set(key, value)
+          },
+          delete: async (key) => {
+            entries.delete(key)
+          }
+        },
+        cookie: { name: 'custom-sid' }
+      })
+      const fastify = await createStoreFastify(store)
+      const written = await fastify.inject({ method: 'GET', url: '/write' })
+      const sid = sessionCookie(written, 'custom-sid')
+      assert.ok(sid)
+      assert.ok(entries.has(sid.value))
+      await fastify.close()
+    })
+  })
+
+  describe('with openIDCookieTokenStore', () => {
+    const secret = new Uint8Array(32).fill(7)
+
+    it('should keep tokens in an encrypted cookie', async () => {
+      const fastify = await createStoreFastify(
+        openIDCookieTokenStore({ secret })
+      )
+      const written = await fastify.inject({ method: 'GET', url: '/write' })
+      const tokens = sessionCookie(written, 'tokens')
+      assert.ok(tokens)
+      assert.ok(!tokens.value.includes('test-access-token'))
+      const read = await fastify.inject({
+        method: 'GET',
+        url: '/read',
+        cookies: { tokens: tokens.value }
+      })
+      assert.strictEqual(read.json().access_token, 'test-access-token')
+      await fastify.close()
+    })
+
+    it('should keep the DPoP key across requests', async () => {
+      const fastify = await createStoreFastify(
+        openIDCookieTokenStore({ secret })
+      )
+      const written = await fastify.inject({ method: 'GET', url: '/dpop/set' })
+      const read = await fastify.inject({
+        method: 'GET',
+        url: '/dpop/get',
+        cookies: { tokens: sessionCookie(written, 'tokens')?.value as string }
+      })
+      assert.deepStrictEqual(read.json(), { stored: 'ES256' })
+      await fastify.close()
+    })
+
+    it('should keep the logout state across requests', async () => {
+      const fastify = await createStoreFastify(
+        openIDCookieTokenStore({ secret })
+      )
+      const written = await fastify.inject({
+        method: 'GET',
+        url: '/logout/set'
+      })
+      const read = await fastify.inject({
+        method: 'GET',
+        url: '/logout/get',
+        cookies: { tokens: sessionCookie(written, 'tokens')?.value as string }
+      })
+      assert.deepStrictEqual(read.json(), { stored: 'test-state' })
+      await fastify.close()
+    })
+
+    it('should split large values across cookies', async () => {
+      const fastify = await createStoreFastify(
+        openIDCookieTokenStore({ secret, chunkSize: 100 })
+      )
+      const written = await fastify.inject({ method: 'GET', url: '/write' })
+      const chunks = written.cookies.filter(({ name }) =>
+        name.startsWith('tokens.')
+      )
+      assert.ok(chunks.length > 1)
+      assert.strictEqual(sessionCookie(written, 'tokens'), undefined)
+      const cookies = Object.fromEntries(
+        chunks.map(({ name, value }) => [name, value])
+      )
+      const read = await fastify.inject({
+        method: 'GET',
+        url: '/read',
+        cookies
+      })
+      assert.strictEqual(read.json().access_token, 'test-access-token')
+      const tampered = await fastify.inject({
+        method: 'GET',
+        url: '/read',
+        cookies: { ...cookies, 'tokens.1': 'tampered' }
+      })
+      assert.deepStrictEqual(tampered.json(), {})
+      // Clearing the tokens expires every chunk
+      const cleared = await fastify.inject({
+        method: 'GET',
+        url: '/clear',
+        cookies
+      })
+      const expired = cleared.cookies
+        .filter(({ value }) => value === '')
+        .map(({ name }) => name)
+      for (const name of Object.keys(cookies)) {
+        assert.ok(expired.includes(name))
+      }
+      await fastify.close()
+    })
+
+    it('should ignore cookies encrypted with another secret', async () => {
+      const fastify = await createStoreFastify(
+        openIDCookieTokenStore({ secret })
+      )
+      const other = await createStoreFastify(
+        openIDCookieTokenStore({ secret: new Uint8Array(32).fill(8) })
+      )
+      const written = await other.inject({ method: 'GET', url: '/write' })
+      const read = await fastify.inject({
+        method: 'GET',
+        url: '/read',
+        cookies: { tokens: sessionCookie(written, 'tokens')?.value as string }
+      })
+      assert.deepStrictEqual(read.json(), {})
+      await fastify.close()
+      await other.close()
+    })
+  })
+})
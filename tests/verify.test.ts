@@ -1,13 +1,25 @@
 import assert from 'node:assert'
-import { describe, it } from 'node:test'
-import type { TokenEndpointResponse } from 'openid-client'
-import { type OpenIDVerifyOptions, openIDJWTVerify } from '../src/verify.ts'
+import { after, before, describe, it } from 'node:test'
+import { createLocalJWKSet, errors, type JWK, SignJWT } from 'jose'
+import type { Configuration, TokenEndpointResponse } from 'openid-client'
+import {
+  type OpenIDVerifyOptions,
+  openIDBearerHandlerFactory,
+  openIDIntrospect,
+  openIDJWTVerify,
+  openIDRegisterBearerDecorator,
+  openIDRemoteJWKSet,
+  openIDVerifyHandlerFactory
+} from '../src/verify.ts'
 import { getTestKeys } from './fixtures/keys.ts'
+import { createTestProvider, type TestProvider } from './fixtures/provider.ts'
 import {
   createAccessToken,
   createIdToken,
   createTokenSet
 } from './fixtures/tokens.ts'
+import { createTestConfig } from './helpers/config.ts'
+import { addFormBodyParser, createTestFastify } from './helpers/fastify.ts'
 
 describe('openIDJWTVerify and Factories (unit)', () => {
   it('should verify id_token successfully', async () => {
@@ -108,3 +120,476 @@ describe('openIDJWTVerify and Factories (unit)', () => {
     )
   })
 })
+
+describe('openIDJWTVerify with issuer configuration', () => {
+  let provider: TestProvider
+  let config: Configuration
+
+  before(async () => {
+    provider = await createTestProvider({ port: 3008 })
+    config = await createTestConfig({
+      issuer: provider.issuer,
+      clientId: 'test-client'
+    })
+  })
+
+  after(async () => {
+    await provider.stop()
+  })
+
+  it('should verify with the issuer jwks_uri and default claims', async () => {
+    const tokenset = await createTokenSet({
+      issuer: provider.issuer,
+      clientId: 'test-client'
+    })
+    const result = await openIDJWTVerify(
+      tokenset,
+      { tokens: ['id_token'] },
+      config
+    )
+    assert.strictEqual(result.id_token?.payload.iss, provider.issuer)
+  })
+
+  it('should reject tokens for another issuer or audience', async () => {
+    const otherIssuer = await createTokenSet({
+      issuer: 'https://other-issuer.example.com',
+      clientId: 'test-client'
+    })
+    await assert.rejects(
+      () => openIDJWTVerify(otherIssuer, { tokens: ['id_token'] }, config),
+      /unexpected "iss" claim value/
+    )
+    const otherAudience = await createTokenSet({
+      issuer: provider.issuer,
+      clientId: 'other-client'
+    })
+    await assert.rejects(
+      () => openIDJWTVerify(otherAudience, { tokens: ['id_token'] }, config),
+      /unexpected "aud" claim value/
+    )
+    // Access tokens are not expected to be audienced to the client
+    const result = await openIDJWTVerify(
+      otherAudience,
+      { tokens: ['access_token'] },
+      config
+    )
+    assert.strictEqual(result.access_token?.payload.iss, provider.issuer)
+  })
+
+  it('should cache the remote JWKS per configuration', () => {
+    assert.strictEqual(openIDRemoteJWKSet(config), openIDRemoteJWKSet(config))
+  })
+
+  it('should reject when neither key nor configuration is given', async () => {
+    const tokenset = await createTokenSet({
+      issuer: provider.issuer,
+      clientId: 'test-client'
+    })
+    await assert.rejects(
+      () => openIDJWTVerify(tokenset, { tokens: ['id_token'] }),
+      (error: Error & { code?: string }) =>
+        error.code === 'FST_OPENID_VERIFY_KEY'
+    )
+  })
+
+  it('should verify in the handler without a key', async () => {
+    const tokenset = await createTokenSet({
+      issuer: provider.issuer,
+      clientId: 'test-client'
+    })
+    const fastify = await createTestFastify()
+    fastify.get(
+      '/verify',
+      openIDVerifyHandlerFactory(
+        {
+          tokens: ['id_token'],
+          read: () => tokenset,
+          write: (_request, _reply, _tokenset, verified) => ({
+            sub: verified?.id_token?.payload.sub
+          })
+        },
+        config
+      )
+    )
+    await fastify.ready()
+    const response = await fastify.inject({ method: 'GET', url: '/verify' })
+    assert.strictEqual(response.statusCode, 200)
+    assert.ok(response.json().sub)
+    await fastify.close()
+  })
+})
+
+describe('openIDJWTVerify with introspection', () => {
+  let provider: TestProvider
+  let config: Configuration
+
+  before(async () => {
+    provider = await createTestProvider({ port: 3009 })
+    config = await createTestConfig({
+      issuer: provider.issuer,
+      clientId: 'test-client'
+    })
+  })
+
+  after(async () => {
+    await provider.stop()
+  })
+
+  const issueAccessToken = async (expiresIn = 3600) => {
+    const client = await provider.provider.Client.find('test-client')
+    const token = new provider.provider.AccessToken({
+      accountId: 'test-user',
+      client,
+      scope: 'openid',
+      expiresIn
+    })
+    return await token.save()
+  }
+
+  const countIntrospections = () => {
+    const calls = { count: 0 }
+    provider.testMiddleware.add(async (ctx, next) => {
+      if (ctx.path === '/token/introspection') {
+        calls.count++
+      }
+      await next()
+    })
+    return calls
+  }
+
+  it('should introspect opaque access tokens', async () => {
+    const accessToken = await issueAccessToken()
+    const result = await openIDJWTVerify(
+      { access_token: accessToken },
+      { tokens: ['access_token'], introspection: {} },
+      config
+    )
+    assert.strictEqual(result.introspection?.active, true)
+    assert.strictEqual(result.introspection?.sub, 'test-user')
+    assert.strictEqual(result.access_token, undefined)
+  })
+
+  it('should reject inactive access tokens', async () => {
+    await assert.rejects(
+      () =>
+        openIDJWTVerify(
+          { access_token: 'unknown-token' },
+          { tokens: ['access_token'], introspection: {} },
+          config
+        ),
+      (error: Error & { code?: string; statusCode?: number }) =>
+        error.code === 'FST_OPENID_TOKEN_INACTIVE' && error.statusCode === 401
+    )
+  })
+
+  it('should cache introspection responses by token', async () => {
+    const accessToken = await issueAccessToken()
+    const calls = countIntrospections()
+    const options = {}
+    await openIDIntrospect(accessToken, options, config)
+    await openIDIntrospect(accessToken, options, config)
+    assert.strictEqual(calls.count, 1)
+    await openIDIntrospect(accessToken, { cache: false }, config)
+    assert.strictEqual(calls.count, 2)
+  })
+
+  it('should bound the cache ttl by the token exp', async () => {
+    const accessToken = await issueAccessToken(60)
+    const ttls: (number | undefined)[] = []
+    await openIDIntrospect(
+      accessToken,
+      {
+        ttl: 3600,
+        cache: {
+          get: () => undefined,
+          set: (_key, _value, ttl) => {
+            ttls.push(ttl)
+          },
+          delete: () => {}
+        }
+      },
+      config
+    )
+    assert.strictEqual(ttls.length, 1)
+    assert.ok((ttls[0] ?? 0) <= 60)
+  })
+
+  it('should pass the introspection response to write', async () => {
+    const accessToken = await issueAccessToken()
+    const fastify = await createTestFastify()
+    fastify.get(
+      '/verify',
+      openIDVerifyHandlerFactory(
+        {
+          tokens: ['access_token'],
+          introspection: {},
+          read: () => ({ access_token: accessToken }),
+          write: (_request, reply, _tokenset, verified) => {
+            reply.send({ sub: verified?.introspection?.sub })
+          }
+        },
+        config
+      )
+    )
+    await fastify.ready()
+    const response = await fastify.inject({ method: 'GET', url: '/verify' })
+    assert.deepStrictEqual(response.json(), { sub: 'test-user' })
+    await fastify.close()
+  })
+
+  it('should reject introspection responses for another audience', async () => {
+    const accessToken = await issueAccessToken()
+    const fastify = await createTestFastify()
+    fastify.get(
+      '/api',
+      {
+        preHandler: openIDBearerHandlerFactory(
+          {
+            introspection: {},
+            options: { audience: 'https://api.example.com' }
+          },
+          config
+        )
+      },
+      async () => ({ ok: true })
+    )
+    await fastify.ready()
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/api',
+      headers: { authorization: `Bearer ${accessToken}` }
+    })
+    assert.strictEqual(response.statusCode, 401)
+    assert.strictEqual(response.json().code, 'FST_OPENID_BEARER_INVALID_TOKEN')
+    await fastify.close()
+  })
+})
+
+describe('openIDBearerHandlerFactory', () => {
+  const issuer = 'https://test-issuer.example.com'
+  const clientId = 'test-client'
+
+  const createBearerFastify = async (
+    options: Partial<Parameters<typeof openIDBearerHandlerFactory>[0]> = {}
+  ) => {
+    const keys = await getTestKeys()
+    const fastify = addFormBodyParser(await createTestFastify())
+    openIDRegisterBearerDecorator(fastify)
+    fastify.route({
+      method: ['GET', 'POST'],
+      url: '/api',
+      preHandler: openIDBearerHandlerFactory({
+        key: keys.publicKey,
+        options: { issuer, audience: clientId },
+        realm: 'api',
+        ...options
+      }),
+      handler: async (request) => ({
+        sub: request.user?.sub
+      })
+    })
+    await fastify.ready()
+    return fastify
+  }
+
+  it('should verify the authorization header and decorate the request', async () => {
+    const fastify = await createBearerFastify()
+    const accessToken = await createAccessToken({ issuer, clientId })
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/api',
+      headers: { authorization: `Bearer ${accessToken}` }
+    })
+    assert.strictEqual(response.statusCode, 200)
+    assert.deepStrictEqual(response.json(), { sub: 'test-user' })
+    await fastify.close()
+  })
+
+  it('should challenge requests without a token', async () => {
+    const fastify = await createBearerFastify()
+    const response = await fastify.inject({ method: 'GET', url: '/api' })
+    assert.strictEqual(response.statusCode, 401)
+    assert.strictEqual(
+      response.headers['www-authenticate'],
+      'Bearer realm="api"'
+    )
+    await fastify.close()
+  })
+
+  it('should reject invalid tokens with invalid_token', async () => {
+    const fastify = await createBearerFastify()
+    const accessToken = await createAccessToken({
+      issuer: 'https://other-issuer.example.com',
+      clientId
+    })
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/api',
+      headers: { authorization: `Bearer ${accessToken}` }
+    })
+    assert.strictEqual(response.statusCode, 401)
+    assert.match(
+      response.headers['www-authenticate'] as string,
+      /^Bearer realm="api", error="invalid_token", error_description="/
+    )
+    assert.strictEqual(response.json().code, 'FST_OPENID_BEARER_INVALID_TOKEN')
+    await fastify.close()
+  })
+
+  it('should require an audience', () => {
+    assert.throws(
+      () => openIDBearerHandlerFactory({ options: { issuer } }),
+      (error: Error & { code?: string }) =>
+        error.code === 'FST_OPENID_BEARER_AUDIENCE'
+    )
+  })
+
+  it('should reject tokens issued for another audience', async () => {
+    const fastify = await createBearerFastify()
+    const accessToken = await createAccessToken({
+      issuer,
+      clientId: 'other-client'
+    })
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/api',
+      headers: { authorization: `Bearer ${accessToken}` }
+    })
+    assert.strictEqual(response.statusCode, 401)
+    assert.match(
+      response.headers['www-authenticate'] as string,
+      /error="invalid_token"/
+    )
+    await fastify.close()
+  })
+
+  it('should reject tokens signed with an unknown kid', async () => {
+    const keys = await getTestKeys()
+    const fastify = await createBearerFastify({
+      key: createLocalJWKSet({ keys: [keys.publicJwk as JWK] })
+    })
+    const now = Math.floor(Date.now() / 1000)
+    const accessToken = await new SignJWT({ scope: 'openid' })
+      .setProtectedHeader({ alg: 'RS256', kid: 'forged-key' })
+      .setIssuer(issuer)
+      .setAudience(clientId)
+      .setIssuedAt(now)
+      .setExpirationTime(now + 60)
+      .sign(keys.privateKey)
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/api',
+      headers: { authorization: `Bearer ${accessToken}` }
+    })
+    assert.strictEqual(response.statusCode, 401)
+    assert.match(
+      response.headers['www-authenticate'] as string,
+      /error="invalid_token"/
+    )
+    await fastify.close()
+  })
+
+  it('should reject tokens whose alg does not fit the key', async () => {
+    const fastify = await createBearerFastify()
+    const now = Math.floor(Date.now() / 1000)
+    const accessToken = await new SignJWT({ scope: 'openid' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setIssuer(issuer)
+      .setAudience(clientId)
+      .setIssuedAt(now)
+      .setExpirationTime(now + 60)
+      .sign(new TextEncoder().encode('forged-secret-forged-secret-1234'))
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/api',
+      headers: { authorization: `Bearer ${accessToken}` }
+    })
+    assert.strictEqual(response.statusCode, 401)
+    assert.strictEqual(response.json().code, 'FST_OPENID_BEARER_INVALID_TOKEN')
+    await fastify.close()
+  })
+
+  it('should rethrow errors not caused by the token', async () => {
+    const fastify = await createBearerFastify({
+      key: async () => {
+        throw new errors.JWKSTimeout()
+      }
+    })
+    const accessToken = await createAccessToken({ issuer, clientId })
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/api',
+      headers: { authorization: `Bearer ${accessToken}` }
+    })
+    assert.strictEqual(response.statusCode, 500)
+    assert.strictEqual(response.json().code, 'ERR_JWKS_TIMEOUT')
+    assert.strictEqual(response.headers['www-authenticate'], undefined)
+    await fastify.close()
+  })
+
+  it('should declare the request decorator once', async () => {
+    const fastify = await createTestFastify()
+    openIDRegisterBearerDecorator(fastify)
+    openIDRegisterBearerDecorator(fastify)
+    assert.strictEqual(fastify.hasRequestDecorator('user'), true)
+    await fastify.close()
+  })
+
+  it('should reject missing scopes with insufficient_scope', async () => {
+    const fastify = await createBearerFastify({ scope: ['openid', 'write'] })
+    const accessToken = await createAccessToken({
+      issuer,
+      clientId,
+      scope: 'openid read'
+    })
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/api',
+      headers: { authorization: `Bearer ${accessToken}` }
+    })
+    assert.strictEqual(response.statusCode, 403)
+    assert.match(
+      response.headers['www-authenticate'] as string,
+      /error="insufficient_scope".*, scope="openid write"$/
+    )
+    await fastify.close()
+  })
+
+  it('should only accept query and body tokens when enabled', async () => {
+    const accessToken = await createAccessToken({ issuer, clientId })
+    const headerOnly = await createBearerFastify()
+    const ignored = await headerOnly.inject({
+      method: 'GET',
+      url: `/api?access_token=${accessToken}`
+    })
+    assert.strictEqual(ignored.statusCode, 401)
+    await headerOnly.close()
+
+    const fastify = await createBearerFastify({
+      locations: ['header', 'query', 'body']
+    })
+    const query = await fastify.inject({
+      method: 'GET',
+      url: `/api?access_token=${accessToken}`
+    })
+    assert.strictEqual(query.statusCode, 200)
+    const body = await fastify.inject({
+      method: 'POST',
+      url: '/api',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      payload: `access_token=${accessToken}`
+    })
+    assert.strictEqual(body.statusCode, 200)
+    const both = await fastify.inject({
+      method: 'GET',
+      url: `/api?access_token=${accessToken}`,
+      headers: { authorization: `Bearer ${accessToken}` }
+    })
+    assert.strictEqual(both.statusCode, 400)
+    assert.match(
+      both.headers['www-authenticate'] as string,
+      /error="invalid_request"/
+    )
+    await fastify.close()
+  })
+})